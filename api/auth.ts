@@ -0,0 +1,149 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { sendMagicLink } from './lib/mailer.js';
+import { getStorage } from './lib/storage/index.js';
+import { handleCors, setCorsHeaders } from './utils/cors.js';
+import { sendServerError } from './utils/errors.js';
+import { RATE_LIMITS, rateLimitByIp } from './utils/rateLimit.js';
+import {
+  clearSessionCookie,
+  createMagicLinkToken,
+  generateUserId,
+  getAppUrl,
+  getSessionUserId,
+  setSessionCookie,
+  verifyMagicLinkToken,
+} from './utils/session.js';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(req, res);
+
+  const storage = getStorage();
+
+  try {
+    if (req.method === 'GET') {
+      // マジックリンクからの遷移。メールのリンク確認などで開かれてもログインしないよう、
+      // ここでは確認画面へ送るだけで、ログインは画面からの POST（verify-link）で行う
+      if (req.query.token) {
+        const token = String(req.query.token);
+        const location = verifyMagicLinkToken(token)
+          ? `/login?token=${encodeURIComponent(token)}`
+          : '/register?login=expired';
+        res.status(302).setHeader('Location', location).end();
+        return;
+      }
+
+      // 現在のセッション確認
+      const userId = getSessionUserId(req);
+      if (!userId) {
+        res.status(401).json({ error: 'ログインが必要です' });
+        return;
+      }
+      res.status(200).json({ userId });
+      return;
+    }
+
+    if (req.method === 'POST') {
+      const { action, email, legacyUserId, token } = req.body || {};
+
+      if (action === 'guest') {
+        const currentUserId = getSessionUserId(req);
+        if (currentUserId) {
+          res.status(200).json({ userId: currentUserId });
+          return;
+        }
+
+        // 旧バージョンで端末に保存されたIDは、メール未確認かつ未移行の場合に限り一度だけ引き継ぐ。
+        // IDの他に所有を確かめる手段が無いため、試行の回数を IP ごとに制限する
+        let userId: string | null = null;
+        if (typeof legacyUserId === 'string' && legacyUserId) {
+          if (!(await rateLimitByIp(req, res, RATE_LIMITS.legacyClaim))) return;
+          if (await storage.users.claimLegacy(legacyUserId)) userId = legacyUserId;
+        }
+
+        if (!userId) {
+          if (!(await rateLimitByIp(req, res, RATE_LIMITS.guest))) return;
+          userId = generateUserId();
+          await storage.users.create(userId, { claimed: true });
+        }
+
+        setSessionCookie(res, userId);
+        res.status(200).json({ userId });
+        return;
+      }
+
+      if (action === 'request-link') {
+        const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : '';
+        if (!EMAIL_PATTERN.test(normalizedEmail)) {
+          res.status(400).json({ error: '有効なメールアドレスを入力してください' });
+          return;
+        }
+        if (!(await rateLimitByIp(req, res, RATE_LIMITS.magicLink))) return;
+
+        const token = createMagicLinkToken(normalizedEmail, getSessionUserId(req));
+        const link = `${getAppUrl()}/api/auth?token=${encodeURIComponent(token)}`;
+        await sendMagicLink(normalizedEmail, link);
+
+        res.status(200).json({
+          message: 'ログインリンクを送信しました',
+          ...(process.env.NODE_ENV !== 'production' ? { devLink: link } : {}),
+        });
+        return;
+      }
+
+      if (action === 'verify-link') {
+        if (!(await rateLimitByIp(req, res, RATE_LIMITS.verifyLink))) return;
+        // 別のサイトから送信されたフォームでログインさせない
+        if (req.headers.origin && req.headers.origin !== new URL(getAppUrl()).origin) {
+          res.status(403).json({ error: 'Forbidden' });
+          return;
+        }
+
+        // リンクは一度だけ使える
+        const link = verifyMagicLinkToken(typeof token === 'string' ? token : '');
+        if (!link || !(await storage.magicLinks.markUsed(link.nonce))) {
+          res.status(400).json({ error: 'ログインリンクの有効期限が切れています' });
+          return;
+        }
+
+        let userId: string | null = await storage.users.findIdByVerifiedEmail(link.email);
+
+        if (!userId) {
+          // リンクを要求したのと同じセッションで開いた場合だけ、そのアカウントにメールを紐付ける（未確認のメールのみ上書き）
+          const sessionUserId = getSessionUserId(req);
+          if (
+            sessionUserId &&
+            sessionUserId === link.uid &&
+            (await storage.users.attachVerifiedEmail(sessionUserId, link.email))
+          ) {
+            userId = sessionUserId;
+          }
+        }
+
+        if (!userId) {
+          userId = generateUserId();
+          await storage.users.create(userId, { email: link.email, emailVerified: true, claimed: true });
+        }
+
+        setSessionCookie(res, userId);
+        res.status(200).json({ userId });
+        return;
+      }
+
+      res.status(400).json({ error: 'Unknown action' });
+      return;
+    }
+
+    if (req.method === 'DELETE') {
+      clearSessionCookie(res);
+      res.status(200).json({ message: 'signed out' });
+      return;
+    }
+
+    res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    sendServerError(res, 'auth', error);
+  }
+}
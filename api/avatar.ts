@@ -1,9 +1,14 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
-import { getDbPool } from './lib/db.js';
+import type { AvatarConfig } from '../src/types';
+import { profileSchema } from '../shared/requestSchemas.js';
+import { validate } from '../shared/schema.js';
+import { getStorage } from './lib/storage/index.js';
 import { handleCors, setCorsHeaders } from './utils/cors.js';
-import { getUserId } from './utils/user.js';
+import { sendServerError, sendValidationError } from './utils/errors.js';
+import { RATE_LIMITS, rateLimitByUser } from './utils/rateLimit.js';
+import { requireUserId } from './utils/user.js';
 
-const DEFAULT_AVATAR = {
+const DEFAULT_AVATAR: AvatarConfig = {
   skinTone: '#fcd7b8',
   hairColor: '#5d4632',
   clothingColor: '#7fb4ff',
@@ -15,19 +20,18 @@ const DEFAULT_AVATAR = {
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (handleCors(req, res)) return;
-  setCorsHeaders(res);
+  setCorsHeaders(req, res);
 
-  const userId = getUserId(req);
-  const pool = getDbPool();
+  const userId = requireUserId(req, res);
+  if (!userId) return;
+  if (!(await rateLimitByUser(res, userId, RATE_LIMITS.profile))) return;
+  const storage = getStorage();
 
   try {
     if (req.method === 'GET') {
-      const result = await pool.query(
-        'SELECT id, display_name, email, avatar_config FROM users WHERE id = $1',
-        [userId]
-      );
+      const user = await storage.users.find(userId);
 
-      if (result.rows.length === 0) {
+      if (!user) {
         res.status(200).json({
           user: {
             id: userId,
@@ -40,46 +44,30 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         return;
       }
 
-      const row = result.rows[0];
-      const avatarConfig = row.avatar_config || DEFAULT_AVATAR;
       res.status(200).json({
         user: {
-          id: row.id,
-          displayName: row.display_name || 'ゲスト',
-          email: row.email || '',
-          avatar: typeof avatarConfig === 'string' ? JSON.parse(avatarConfig) : avatarConfig,
-          isRegistered: Boolean(row.display_name),
+          id: user.id,
+          displayName: user.displayName || 'ゲスト',
+          email: user.email || '',
+          avatar: user.avatar || DEFAULT_AVATAR,
+          isRegistered: Boolean(user.displayName),
         },
       });
       return;
     }
 
     if (req.method === 'PUT') {
-      const { displayName, email, avatar } = req.body || {};
-
-      if (!displayName) {
-        res.status(400).json({ error: '表示名は必須です' });
-        return;
-      }
-
-      const trimmedName = String(displayName).trim();
-      if (!trimmedName) {
-        res.status(400).json({ error: '表示名は必須です' });
+      const { value: body, issues } = validate(profileSchema, req.body);
+      if (!body) {
+        sendValidationError(res, issues);
         return;
       }
 
-      const trimmedEmail = email ? String(email).trim() : null;
-      const avatarConfig = avatar || DEFAULT_AVATAR;
+      const trimmedName = body.displayName;
+      const trimmedEmail = body.email || null;
+      const avatarConfig = body.avatar || DEFAULT_AVATAR;
 
-      await pool.query(
-        `UPDATE users
-         SET display_name = $1,
-             email = $2,
-             avatar_config = $3,
-             updated_at = CURRENT_TIMESTAMP
-         WHERE id = $4`,
-        [trimmedName, trimmedEmail, avatarConfig, userId]
-      );
+      await storage.users.saveProfile(userId, { displayName: trimmedName, email: trimmedEmail, avatar: avatarConfig });
 
       res.status(200).json({
         user: {
@@ -95,7 +83,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     res.status(405).json({ error: 'Method not allowed' });
   } catch (error: any) {
-    console.error('avatar API error', error);
-    res.status(500).json({ error: error.message });
+    sendServerError(res, 'avatar', error);
   }
 }
@@ -0,0 +1,36 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { characterRequestSchema } from '../shared/requestSchemas.js';
+import { validate } from '../shared/schema.js';
+import { getStorage } from './lib/storage/index.js';
+import { handleCors, setCorsHeaders } from './utils/cors.js';
+import { sendServerError, sendValidationError } from './utils/errors.js';
+import { RATE_LIMITS, rateLimitByUser } from './utils/rateLimit.js';
+import { requireUserId } from './utils/user.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(req, res);
+
+  if (req.method !== 'PUT') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const userId = requireUserId(req, res);
+  if (!userId) return;
+  if (!(await rateLimitByUser(res, userId, RATE_LIMITS.character))) return;
+
+  // レベル・経験値はルーティンのイベントからサーバーが計算するため、ここでは受け付けない
+  const { value: body, issues } = validate(characterRequestSchema, req.body);
+  if (!body) {
+    sendValidationError(res, issues);
+    return;
+  }
+
+  try {
+    const saved = await getStorage().characters.updateTheme(userId, body.character.theme);
+    res.status(200).json({ character: saved });
+  } catch (error: any) {
+    sendServerError(res, 'character', error);
+  }
+}
@@ -1,39 +1,33 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { ChatHistoryItem } from '../src/types';
+import { chatSchema } from '../shared/requestSchemas.js';
+import { validate } from '../shared/schema.js';
 import { handleCors, setCorsHeaders } from './utils/cors.js';
-
-type ChatHistoryItem = {
-  sender: 'user' | 'character';
-  text: string;
-};
-
-interface ChatRequestPayload {
-  message?: string;
-  level?: number;
-  experienceRatio?: number;
-  history?: ChatHistoryItem[];
-  userName?: string;
-}
+import { sendValidationError } from './utils/errors.js';
+import { RATE_LIMITS, rateLimitByIp } from './utils/rateLimit.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (handleCors(req, res)) return;
-  setCorsHeaders(res);
+  setCorsHeaders(req, res);
 
   if (req.method !== 'POST') {
     res.status(405).json({ error: 'Method not allowed' });
     return;
   }
 
-  const payload = (req.body || {}) as ChatRequestPayload;
-  const rawMessage = (payload.message || '').trim();
-  if (!rawMessage) {
-    res.status(400).json({ error: 'message is required' });
+  if (!(await rateLimitByIp(req, res, RATE_LIMITS.chat))) return;
+
+  const { value: payload, issues } = validate(chatSchema, req.body);
+  if (!payload) {
+    sendValidationError(res, issues);
     return;
   }
 
-  const level = Number.isFinite(payload.level) ? Math.max(1, Math.floor(payload.level as number)) : 1;
-  const experienceRatio = clamp(Number(payload.experienceRatio ?? 0), 0, 1);
-  const history = Array.isArray(payload.history) ? payload.history.slice(-8) : [];
-  const userName = (payload.userName || '').trim() || 'あなた';
+  const rawMessage = payload.message;
+  const level = payload.level ?? 1;
+  const experienceRatio = payload.experienceRatio ?? 0;
+  const history = (payload.history ?? []).slice(-8);
+  const userName = payload.userName || 'あなた';
 
   const baseAffinity = calculateBaseAffinity(level, experienceRatio);
   const conversationBonus = Math.min(history.filter((item) => item.sender === 'character').length * 2.5, 15);
@@ -0,0 +1,104 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { DEFAULT_TIME_ZONE, toDayKey, toLocalDateString, toLocalTimeString } from '../../shared/date.js';
+import { sendPush } from '../lib/push.js';
+import { getStorage } from '../lib/storage/index.js';
+import { sendServerError } from '../utils/errors.js';
+
+// Vercel Cron から定期的に呼ばれ、各ユーザーのローカル時刻で通知時間を過ぎたリマインダーを送る。
+// 実行間隔が空いても送れるよう、通知時間から WINDOW_MINUTES 以内なら送信対象にする
+const WINDOW_MINUTES = 30;
+
+type ReminderKind = 'morning' | 'evening';
+
+const REMINDERS: Record<ReminderKind, { title: string; body: string; url: string }> = {
+  morning: {
+    title: 'おはようございます 🌅',
+    body: '朝のルーティンで一日を始めましょう',
+    url: '/',
+  },
+  evening: {
+    title: '今日もお疲れさまでした 🌙',
+    body: '夜のルーティンで一日を整えましょう',
+    url: '/evening',
+  },
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+function isAuthorized(req: VercelRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return process.env.NODE_ENV !== 'production';
+  }
+  return req.headers.authorization === `Bearer ${secret}`;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  if (!isAuthorized(req)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  // 開発環境では ?now=2024-01-01T23:00:00Z のように時刻を指定して動作確認できる
+  const now = process.env.NODE_ENV !== 'production' && typeof req.query.now === 'string'
+    ? new Date(req.query.now)
+    : new Date();
+  if (Number.isNaN(now.getTime())) {
+    res.status(400).json({ error: 'now が不正です' });
+    return;
+  }
+
+  const storage = getStorage();
+
+  try {
+    const subscribers = await storage.pushSubscriptions.findSubscribers();
+
+    let sent = 0;
+    let expired = 0;
+
+    for (const { userId, routineSettings } of subscribers) {
+      const { settings } = routineSettings;
+      const timeZone = settings.timeZone || DEFAULT_TIME_ZONE;
+      const localDate = toLocalDateString(now, timeZone);
+      const localMinutes = toMinutes(toLocalTimeString(now, timeZone));
+
+      const dueKinds = (['morning', 'evening'] as ReminderKind[]).filter((kind) => {
+        const scheduled = toMinutes(kind === 'morning' ? settings.morningNotificationTime : settings.eveningNotificationTime);
+        const elapsed = (localMinutes - scheduled + 24 * 60) % (24 * 60);
+        return elapsed < WINDOW_MINUTES;
+      });
+      if (dueKinds.length === 0) continue;
+
+      // すでに終えたセクションのリマインダーは送らない
+      const log = await storage.dayLogs.find(userId, toDayKey(now, timeZone, settings.dayStartTime));
+
+      for (const kind of dueKinds) {
+        if (log?.[kind].completed) continue;
+
+        // 同じ日の同じ通知は一度だけ（並行して実行されても二重に送らない）
+        if (!(await storage.reminderDeliveries.claim(userId, kind, localDate))) continue;
+
+        for (const subscription of await storage.pushSubscriptions.findByUser(userId)) {
+          const result = await sendPush(subscription, { ...REMINDERS[kind], tag: `reminder-${kind}` });
+          if (result.ok) sent++;
+          if (result.expired) {
+            await storage.pushSubscriptions.delete(subscription.endpoint);
+            expired++;
+          }
+        }
+      }
+    }
+
+    res.status(200).json({ sent, expired });
+  } catch (error: any) {
+    sendServerError(res, 'reminders cron', error);
+  }
+}
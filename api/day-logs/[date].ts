@@ -0,0 +1,67 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { DEFAULT_TIME_ZONE, getToday, isValidDateString } from '../../shared/date.js';
+import { normaliseEveningJournal } from '../../shared/mood.js';
+import { dayLogPatchSchema } from '../../shared/requestSchemas.js';
+import { canEditDate, changesRoutines } from '../../shared/routineEvents.js';
+import { validate } from '../../shared/schema.js';
+import { isStale, mergeDayLogPatch } from '../lib/merge.js';
+import { getStorage, Repositories } from '../lib/storage/index.js';
+import { handleCors, setCorsHeaders } from '../utils/cors.js';
+import { sendServerError, sendValidationError } from '../utils/errors.js';
+import { RATE_LIMITS, rateLimitByUser } from '../utils/rateLimit.js';
+import { requireUserId } from '../utils/user.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(req, res);
+
+  if (req.method !== 'PATCH') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const userId = requireUserId(req, res);
+  if (!userId) return;
+  if (!(await rateLimitByUser(res, userId, RATE_LIMITS.dayLogs))) return;
+
+  const date = String(req.query.date || '');
+  if (!isValidDateString(date)) {
+    res.status(400).json({ error: 'date は YYYY-MM-DD 形式で指定してください' });
+    return;
+  }
+
+  // 付与済み経験値の記録（rewards）はスキーマで取り除く（ルーティンのイベントでのみ更新する）
+  const { value: body, issues } = validate(dayLogPatchSchema, req.body);
+  if (!body) {
+    sendValidationError(res, issues);
+    return;
+  }
+  const { morning, baseUpdatedAt } = body;
+  const evening = body.evening && { ...body.evening, ...normaliseEveningJournal(body.evening) };
+
+  try {
+    const storage = getStorage();
+    const { settings } = await storage.routineSettings.find(userId);
+    const today = getToday(settings.timeZone || DEFAULT_TIME_ZONE, settings.dayStartTime);
+    const editable = canEditDate(date, today, settings.backfillGraceDays);
+
+    const result = await storage.transaction(async (repositories: Repositories) => {
+      const current = await repositories.dayLogs.findForUpdate(userId, date);
+      // 連続記録はルーティンの達成状態から計算するため、修正できる期間を過ぎた日はルーティンを書き換えさせない
+      if (!editable && changesRoutines(current, { morning, evening })) return null;
+      // 他の端末で先に更新されていたら、上書きせずに項目単位で統合する
+      const conflicted = isStale(current, baseUpdatedAt);
+      const patch = conflicted ? mergeDayLogPatch(current, { morning, evening }) : { morning, evening };
+      const dayLog = await repositories.dayLogs.patch(userId, date, patch);
+      return { dayLog, merged: conflicted };
+    });
+
+    if (!result) {
+      res.status(400).json({ error: 'この日の記録を修正できる期間を過ぎています' });
+      return;
+    }
+    res.status(200).json(result);
+  } catch (error: any) {
+    sendServerError(res, 'day-logs', error);
+  }
+}
@@ -0,0 +1,51 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { mergeImportedDayLog } from '../../shared/habitImport.js';
+import { normaliseEveningJournal } from '../../shared/mood.js';
+import { bulkDayLogsSchema } from '../../shared/requestSchemas.js';
+import { validate } from '../../shared/schema.js';
+import { getStorage, Repositories } from '../lib/storage/index.js';
+import { handleCors, setCorsHeaders } from '../utils/cors.js';
+import { sendServerError, sendValidationError } from '../utils/errors.js';
+import { RATE_LIMITS, rateLimitByUser } from '../utils/rateLimit.js';
+import { requireUserId } from '../utils/user.js';
+
+// 他のアプリから取り込んだ日次ログをまとめて登録する。
+// 既に記録のある日は、まだ無いルーティンの項目だけを追加する（経験値は付与しない）
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(req, res);
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const userId = requireUserId(req, res);
+  if (!userId) return;
+  if (!(await rateLimitByUser(res, userId, RATE_LIMITS.dayLogsBulk))) return;
+
+  const { value: body, issues } = validate(bulkDayLogsSchema, req.body);
+  if (!body) {
+    sendValidationError(res, issues);
+    return;
+  }
+  const dayLogs = body.dayLogs.map((log) => ({
+    ...log,
+    evening: { ...log.evening, ...normaliseEveningJournal(log.evening) },
+  }));
+
+  try {
+    const saved = await getStorage().transaction(async (repositories: Repositories) => {
+      const results = [];
+      for (const log of dayLogs) {
+        const existing = await repositories.dayLogs.findForUpdate(userId, log.date);
+        results.push(await repositories.dayLogs.save(userId, mergeImportedDayLog(existing, log)));
+      }
+      return results;
+    });
+
+    res.status(200).json({ dayLogs: saved });
+  } catch (error: any) {
+    sendServerError(res, 'day-logs bulk', error);
+  }
+}
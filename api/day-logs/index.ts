@@ -0,0 +1,52 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { isValidDateString } from '../../shared/date.js';
+import { getStorage } from '../lib/storage/index.js';
+import { handleCors, setCorsHeaders } from '../utils/cors.js';
+import { sendServerError } from '../utils/errors.js';
+import { RATE_LIMITS, rateLimitByUser } from '../utils/rateLimit.js';
+import { requireUserId } from '../utils/user.js';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 366;
+
+// 期間を指定して日次ログを古い順に返す。件数が limit を超える場合は nextCursor から続きを取得する
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(req, res);
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const userId = requireUserId(req, res);
+  if (!userId) return;
+  if (!(await rateLimitByUser(res, userId, RATE_LIMITS.dayLogHistory))) return;
+
+  const from = String(req.query.from || '');
+  const to = String(req.query.to || '');
+  const cursor = req.query.cursor ? String(req.query.cursor) : null;
+  if (!isValidDateString(from) || !isValidDateString(to) || from > to) {
+    res.status(400).json({ error: 'from と to を YYYY-MM-DD 形式で指定してください（from ≦ to）' });
+    return;
+  }
+  if (cursor !== null && !isValidDateString(cursor)) {
+    res.status(400).json({ error: 'cursor が不正です' });
+    return;
+  }
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit || DEFAULT_LIMIT), 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  try {
+    // 1件多く取得して続きがあるかを判定する
+    const rows = await getStorage().dayLogs.findInRange(userId, { from, to, cursor, limit: limit + 1 });
+    const dayLogs = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+
+    res.status(200).json({
+      dayLogs,
+      nextCursor: hasMore ? dayLogs[dayLogs.length - 1].date : null,
+    });
+  } catch (error: any) {
+    sendServerError(res, 'day-logs', error);
+  }
+}
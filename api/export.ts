@@ -0,0 +1,73 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Character } from '../src/types';
+import { DEFAULT_TIME_ZONE, getToday } from '../shared/date.js';
+import {
+  BackupData,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  getExportFilename,
+  isExportFormat,
+  serialiseExport,
+} from '../shared/export.js';
+import { normaliseEveningJournal } from '../shared/mood.js';
+import { normaliseRoutineTemplates } from '../shared/schedule.js';
+import { withDefaultCharacter } from './lib/records.js';
+import { getStorage } from './lib/storage/index.js';
+import { handleCors, setCorsHeaders } from './utils/cors.js';
+import { sendServerError } from './utils/errors.js';
+import { RATE_LIMITS, rateLimitByUser } from './utils/rateLimit.js';
+import { requireUserId } from './utils/user.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(req, res);
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const userId = requireUserId(req, res);
+  if (!userId) return;
+  if (!(await rateLimitByUser(res, userId, RATE_LIMITS.export))) return;
+
+  const format = req.query.format ?? 'json';
+  if (!isExportFormat(format)) {
+    res.status(400).json({ error: `format は ${EXPORT_FORMATS.join(', ')} のいずれかで指定してください` });
+    return;
+  }
+
+  try {
+    // 端末に読み込まれている期間に限らず、サーバーにある全期間を書き出す
+    const storage = getStorage();
+    const user = await storage.users.find(userId);
+    const character = await storage.characters.find(userId);
+    const routineSettings = await storage.routineSettings.find(userId);
+    const dayLogs = await storage.dayLogs.findAll(userId);
+
+    const timeZone = routineSettings.settings.timeZone || DEFAULT_TIME_ZONE;
+    const today = getToday(timeZone, routineSettings.settings.dayStartTime);
+
+    const data: BackupData = {
+      user: {
+        displayName: user?.displayName || 'ゲスト',
+        email: user?.email || '',
+        avatar: user?.avatar ?? undefined,
+      },
+      character: withDefaultCharacter(character, today) as Character,
+      defaultMorningRoutines: normaliseRoutineTemplates(routineSettings.defaultMorningRoutines, 'morning'),
+      defaultEveningRoutines: normaliseRoutineTemplates(routineSettings.defaultEveningRoutines, 'evening'),
+      settings: { ...routineSettings.settings, timeZone },
+      dayLogs: dayLogs.map((log) => ({
+        ...log,
+        evening: { ...log.evening, ...normaliseEveningJournal(log.evening) },
+      })),
+    };
+
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${getExportFilename(format, today)}"`);
+    res.status(200).send(serialiseExport(format, data, today, userId));
+  } catch (error: any) {
+    sendServerError(res, 'export', error);
+  }
+}
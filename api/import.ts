@@ -0,0 +1,80 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { isImportMode, IMPORT_MODES, parseBackup, summariseImport } from '../shared/import.js';
+import { isCharacterTheme } from '../shared/requestSchemas.js';
+import { createScheduledDayLog } from '../shared/schedule.js';
+import { getStorage, Repositories } from './lib/storage/index.js';
+import { handleCors, setCorsHeaders } from './utils/cors.js';
+import { sendServerError } from './utils/errors.js';
+import { RATE_LIMITS, rateLimitByUser } from './utils/rateLimit.js';
+import { requireUserId } from './utils/user.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(req, res);
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const userId = requireUserId(req, res);
+  if (!userId) return;
+  if (!(await rateLimitByUser(res, userId, RATE_LIMITS.import))) return;
+
+  const { backup, mode, dryRun } = req.body || {};
+  if (!isImportMode(mode)) {
+    res.status(400).json({ error: `mode は ${IMPORT_MODES.join(', ')} のいずれかで指定してください` });
+    return;
+  }
+  const { backup: file, errors } = parseBackup(backup);
+  if (!file) {
+    res.status(400).json({ error: 'バックアップファイルを読み込めませんでした', details: errors });
+    return;
+  }
+
+  try {
+    // プレビュー（dryRun）と本番で同じ集計を返す。dryRun のときは何も書き込まない
+    const summary = await getStorage().transaction(async (repositories: Repositories) => {
+      const { data } = file;
+      const character = await repositories.characters.findForUpdate(userId);
+      const existingDates: string[] = await repositories.dayLogs.findDates(userId);
+      const result = summariseImport(file, mode, existingDates, character?.level ?? 1);
+      if (dryRun) return result;
+
+      if (mode === 'replace') {
+        // 経験値を付与済みの日は、行を消すと同じルーティンをチェックし直して再び経験値を得られてしまうため、
+        // バックアップに無くても行を残し、取り込む定義で予定どおりの未チェックの記録にする（上書きする日の rewards は save が残す）
+        const imported = new Set(data.dayLogs.map((log) => log.date));
+        const rewardedDates = (await repositories.dayLogs.findAllForUpdate(userId))
+          .filter((log) => !imported.has(log.date) && (log.morning.rewards || log.evening.rewards))
+          .map((log) => log.date);
+        await repositories.dayLogs.deleteExcept(userId, [...imported, ...rewardedDates]);
+        for (const date of rewardedDates) {
+          await repositories.dayLogs.save(userId, createScheduledDayLog(date, data.defaultMorningRoutines, data.defaultEveningRoutines));
+        }
+        for (const log of data.dayLogs) {
+          await repositories.dayLogs.save(userId, log);
+        }
+        await repositories.routineSettings.save(userId, data);
+        // レベル・経験値は署名の無いファイルから書き換えられないよう、見た目だけを取り込む
+        if (isCharacterTheme(data.character.theme)) {
+          await repositories.characters.updateTheme(userId, data.character.theme);
+        }
+        await repositories.users.restoreProfile(userId, data.user);
+      } else {
+        // merge は既にある日を一切変えず、記録の無い日だけを追加する
+        const existing = new Set(existingDates);
+        for (const log of data.dayLogs) {
+          if (!existing.has(log.date)) {
+            await repositories.dayLogs.save(userId, log);
+          }
+        }
+      }
+      return result;
+    });
+
+    res.status(200).json({ summary, applied: !dryRun });
+  } catch (error: any) {
+    sendServerError(res, 'import', error);
+  }
+}
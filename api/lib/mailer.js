@@ -0,0 +1,26 @@
+// マジックリンクの送信。MAGIC_LINK_WEBHOOK_URL が設定されていればそこへ POST し、
+// 未設定の場合はログに出力する（ローカル開発用）。
+export async function sendMagicLink(email, link) {
+  const webhookUrl = process.env.MAGIC_LINK_WEBHOOK_URL;
+
+  if (!webhookUrl) {
+    console.info(`[auth] magic link for ${email}: ${link}`);
+    return;
+  }
+
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      to: email,
+      subject: 'Totono Life ログインリンク',
+      text: `以下のリンクを15分以内に開いてログインしてください。\n${link}`,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Magic link delivery failed with status ${response.status}`);
+  }
+}
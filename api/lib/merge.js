@@ -0,0 +1,59 @@
+// 複数端末からの同時編集を統合する。
+// クライアントが送ってきた baseUpdatedAt より後にサーバー側が更新されていた場合に使う。
+
+function timeOf(value) {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? 0 : time;
+}
+
+export function isStale(current, baseUpdatedAt) {
+  if (!current) return false;
+  if (!baseUpdatedAt) return true;
+  return timeOf(current.updatedAt) > timeOf(baseUpdatedAt);
+}
+
+// ルーティン項目ごとに updatedAt が新しい方を採用する（並び順はクライアント優先）
+function mergeRoutines(serverRoutines, clientRoutines) {
+  const serverById = new Map(serverRoutines.map((routine) => [routine.id, routine]));
+  const clientIds = new Set(clientRoutines.map((routine) => routine.id));
+
+  const merged = clientRoutines.map((routine) => {
+    const serverRoutine = serverById.get(routine.id);
+    if (!serverRoutine) return routine;
+    return timeOf(serverRoutine.updatedAt) > timeOf(routine.updatedAt) ? serverRoutine : routine;
+  });
+
+  for (const routine of serverRoutines) {
+    if (!clientIds.has(routine.id)) {
+      merged.push(routine);
+    }
+  }
+  return merged;
+}
+
+function mergeSection(serverSection, clientSection) {
+  if (!clientSection) return undefined;
+  if (!serverSection) return clientSection;
+
+  const routines = mergeRoutines(serverSection.routines, clientSection.routines);
+  const merged = {
+    ...serverSection,
+    ...clientSection,
+    routines,
+    completed: routines.length > 0 && routines.every((routine) => routine.completed),
+  };
+  for (const key of ['mood', 'tags', 'journal']) {
+    if (key in serverSection || key in clientSection) {
+      merged[key] = clientSection[key] ?? serverSection[key];
+    }
+  }
+  return merged;
+}
+
+// 送信されたセクションだけを統合して返す（未送信のセクションは undefined のまま）
+export function mergeDayLogPatch(current, patch) {
+  return {
+    morning: mergeSection(current.morning, patch.morning),
+    evening: mergeSection(current.evening, patch.evening),
+  };
+}
@@ -0,0 +1,93 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { getDbPool } from './db.js';
+
+// database/migrations/NNN_名前.sql を番号順に一度ずつ適用する。
+// 適用済みの番号は schema_migrations に記録し、同時に複数から実行されないよう advisory lock をかける
+const MIGRATIONS_DIR = path.join(process.cwd(), 'database', 'migrations');
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+const MIGRATION_LOCK_ID = 727001;
+
+export async function listMigrations() {
+  const files = await readdir(MIGRATIONS_DIR);
+  const migrations = files
+    .flatMap((file) => {
+      const match = MIGRATION_FILE_PATTERN.exec(file);
+      return match ? [{ version: Number(match[1]), name: match[2], file }] : [];
+    })
+    .sort((a, b) => a.version - b.version);
+
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new Error(`Duplicate migration version: ${migrations[i].file}`);
+    }
+  }
+  return migrations;
+}
+
+async function ensureMigrationsTable(client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+async function findAppliedVersions(client) {
+  const result = await client.query('SELECT version FROM schema_migrations');
+  return new Set(result.rows.map((row) => Number(row.version)));
+}
+
+// 適用済み・未適用のマイグレーション一覧
+export async function getMigrationStatus() {
+  const client = await getDbPool().connect();
+  try {
+    await ensureMigrationsTable(client);
+    const [migrations, applied] = await Promise.all([listMigrations(), findAppliedVersions(client)]);
+    return {
+      applied: migrations.filter((migration) => applied.has(migration.version)),
+      pending: migrations.filter((migration) => !applied.has(migration.version)),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+// 未適用のマイグレーションを1つずつトランザクション内で適用し、適用したものを返す。
+// 途中で失敗した場合はそのマイグレーションだけが巻き戻り、それより前の適用は残る
+export async function runMigrations() {
+  const migrations = await listMigrations();
+  const client = await getDbPool().connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    await ensureMigrationsTable(client);
+    const applied = await findAppliedVersions(client);
+
+    const ran = [];
+    for (const migration of migrations) {
+      if (applied.has(migration.version)) continue;
+
+      const sql = await readFile(path.join(MIGRATIONS_DIR, migration.file), 'utf8');
+      await client.query('BEGIN');
+      try {
+        await client.query(sql);
+        await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [
+          migration.version,
+          migration.name,
+        ]);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        error.message = `${migration.file}: ${error.message}`;
+        throw error;
+      }
+      ran.push(migration);
+    }
+    return ran;
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => {});
+    client.release();
+  }
+}
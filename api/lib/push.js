@@ -0,0 +1,45 @@
+import webpush from 'web-push';
+
+// Web Push の送信。VAPID 鍵は `npx web-push generate-vapid-keys` で生成して環境変数に設定する
+let configured = false;
+
+export function getVapidPublicKey() {
+  return process.env.VAPID_PUBLIC_KEY || null;
+}
+
+function ensureConfigured() {
+  if (configured) return;
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) {
+    throw new Error('VAPID_PUBLIC_KEY と VAPID_PRIVATE_KEY を設定してください');
+  }
+  webpush.setVapidDetails(process.env.VAPID_SUBJECT || 'mailto:support@totono.life', publicKey, privateKey);
+  configured = true;
+}
+
+// 送信結果を返す。購読が無効になっている（404/410）場合は expired: true。
+// web-push は https のエンドポイントにしか送れないため、暗号化と署名だけ任せて送信は fetch で行う
+// （ローカルの http スタブ: scripts/push-stub.mjs でも確認できるように）
+export async function sendPush(subscription, payload) {
+  ensureConfigured();
+  const details = webpush.generateRequestDetails(subscription, JSON.stringify(payload), { TTL: 60 * 60 });
+  try {
+    const response = await fetch(details.endpoint, {
+      method: details.method,
+      headers: details.headers,
+      body: details.body,
+    });
+    if (response.status === 404 || response.status === 410) {
+      return { ok: false, expired: true };
+    }
+    if (!response.ok) {
+      console.error('[push] delivery failed', subscription.endpoint, response.status);
+      return { ok: false, expired: false };
+    }
+    return { ok: true, expired: false };
+  } catch (error) {
+    console.error('[push] delivery failed', subscription.endpoint, error.message);
+    return { ok: false, expired: false };
+  }
+}
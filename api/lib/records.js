@@ -0,0 +1,122 @@
+// DBの行 <-> AppData の各レコードの変換（postgres・sqlite のストレージで共通の列名を使う）
+
+export const DEFAULT_MORNING_ROUTINES = ['歯磨き', '水を飲む', '布団をたたむ', 'ストレッチ'];
+export const DEFAULT_EVENING_ROUTINES = ['日記を書く', 'スマホを置く', '明日の準備', '深呼吸'];
+
+export function parseJson(value, fallback) {
+  if (value === null || value === undefined) return fallback;
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+function toTimestampString(value) {
+  if (!value) return undefined;
+  return typeof value === 'string' ? new Date(value).toISOString() : value.toISOString();
+}
+
+// pg は DATE 型をサーバーのローカル時刻の 0:00 として Date にするため、UTC ではなくローカルの年月日で戻す
+export function toDateString(value) {
+  if (!value) return null;
+  if (typeof value === 'string') return value;
+  const pad = (number) => String(number).padStart(2, '0');
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+}
+
+// 旧3段階の気分（evening_journal への移行前の行）
+const LEGACY_MOODS = { happy: 4, neutral: 3, sad: 2 };
+
+export function toEveningJournal(evening) {
+  return JSON.stringify({ mood: evening.mood, tags: evening.tags, journal: evening.journal });
+}
+
+// avatar は未設定の場合 null（既定のアバターは呼び出し側で補う）
+export function toUser(row) {
+  return {
+    id: row.id,
+    displayName: row.display_name || null,
+    email: row.email || null,
+    avatar: parseJson(row.avatar_config, null),
+    emailVerified: Boolean(row.email_verified),
+  };
+}
+
+export function toDayLog(row) {
+  // evening_journal が未作成（移行前）の行だけ旧 mood 列を読む
+  const journal = parseJson(row.evening_journal, { mood: LEGACY_MOODS[row.mood] });
+  return {
+    date: toDateString(row.date),
+    morning: {
+      routines: parseJson(row.morning_routines, []),
+      completed: Boolean(row.morning_completed),
+      rewards: parseJson(row.morning_rewards, undefined),
+    },
+    evening: {
+      routines: parseJson(row.evening_routines, []),
+      completed: Boolean(row.evening_completed),
+      mood: journal.mood,
+      tags: journal.tags,
+      journal: journal.journal,
+      rewards: parseJson(row.evening_rewards, undefined),
+    },
+    updatedAt: toTimestampString(row.updated_at),
+  };
+}
+
+// today はユーザーのタイムゾーンでの日付（呼び出し側で shared/date の getToday を使って求める）
+export function toCharacter(row, today = null) {
+  if (!row) {
+    return {
+      level: 1,
+      experience: 0,
+      experienceToNext: 100,
+      theme: 'animal',
+      evolutionStage: 0,
+      lastActiveDate: today,
+    };
+  }
+  return {
+    level: row.level,
+    experience: row.experience,
+    experienceToNext: row.experience_to_next,
+    theme: row.theme,
+    evolutionStage: row.evolution_stage,
+    lastActiveDate: toDateString(row.last_active_date) || today,
+    updatedAt: toTimestampString(row.updated_at),
+  };
+}
+
+// キャラクターが未作成、または最終活動日が無い場合はユーザーの今日の日付で補う
+export function withDefaultCharacter(character, today) {
+  return character ? { ...character, lastActiveDate: character.lastActiveDate || today } : toCharacter(null, today);
+}
+
+export function toRoutineSettings(row) {
+  return {
+    defaultMorningRoutines: parseJson(row?.morning_routines, DEFAULT_MORNING_ROUTINES),
+    defaultEveningRoutines: parseJson(row?.evening_routines, DEFAULT_EVENING_ROUTINES),
+    settings: row
+      ? {
+          morningNotificationTime: row.morning_notification_time,
+          eveningNotificationTime: row.evening_notification_time,
+          timeZone: row.time_zone || null,
+          dayStartTime: row.day_start_time ? String(row.day_start_time).slice(0, 5) : '00:00',
+          backfillGraceDays: row.backfill_grace_days ?? 1,
+        }
+      : {
+          morningNotificationTime: '08:00',
+          eveningNotificationTime: '22:00',
+          timeZone: null,
+          dayStartTime: '00:00',
+          backfillGraceDays: 1,
+        },
+  };
+}
+
+export function toPushSubscription(row) {
+  return {
+    endpoint: row.endpoint,
+    keys: {
+      p256dh: row.p256dh,
+      auth: row.auth,
+    },
+  };
+}
@@ -0,0 +1,148 @@
+// index.js のストレージとリポジトリの型（postgres・memory・sqlite のどのドライバーも同じ形を返す）
+import type { AppData, AvatarConfig, Character, DayLog, RoutineTemplate, RoutineType } from '../../../src/types';
+import type { ExperienceAward } from '../../../shared/experience';
+
+export interface StoredUser {
+  id: string;
+  displayName: string | null;
+  email: string | null;
+  avatar: AvatarConfig | null; // 未設定の場合 null（既定のアバターは呼び出し側で補う）
+  emailVerified: boolean;
+}
+
+// theme は CHARACTER_THEMES のいずれか（書き込む前に呼び出し側で検証する）
+export type StoredCharacter = Omit<Character, 'theme'> & { theme: string };
+
+// ルーティン定義は旧形式（文字列や連番ID）のまま保存されていることがあるため、読み込み側で normaliseRoutineTemplates を通す
+export interface StoredRoutineSettings {
+  defaultMorningRoutines: unknown;
+  defaultEveningRoutines: unknown;
+  settings: Omit<AppData['settings'], 'timeZone'> & { timeZone: string | null };
+}
+
+export interface RoutineSettingsInput {
+  defaultMorningRoutines: RoutineTemplate[];
+  defaultEveningRoutines: RoutineTemplate[];
+  // timeZone・dayStartTime・backfillGraceDays を省略した場合は保存済みの値を残す
+  settings: Pick<AppData['settings'], 'morningNotificationTime' | 'eveningNotificationTime'> &
+    Partial<Pick<AppData['settings'], 'dayStartTime' | 'backfillGraceDays'>> & { timeZone?: string | null };
+}
+
+export interface StreakFreeze {
+  id: number;
+  earnedOn: string;
+  usedOn: string | null;
+}
+
+export interface StoredPushSubscription {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export type ReminderKind = RoutineType;
+
+export interface UsersRepository {
+  find(userId: string): Promise<StoredUser | null>;
+  // email は小文字で渡す
+  findIdByVerifiedEmail(email: string): Promise<string | null>;
+  create(
+    userId: string,
+    options?: { email?: string | null; emailVerified?: boolean; claimed?: boolean; avatar?: AvatarConfig | null },
+  ): Promise<void>;
+  // 確認済みのメールアドレスが無いユーザーにだけ付ける
+  attachVerifiedEmail(userId: string, email: string): Promise<boolean>;
+  claimLegacy(userId: string): Promise<boolean>;
+  saveProfile(userId: string, profile: { displayName: string; email: string | null; avatar: AvatarConfig }): Promise<void>;
+  // avatar を省略した場合は保存済みのアバターを残す
+  restoreProfile(userId: string, profile: { displayName: string | null; avatar?: AvatarConfig | null }): Promise<void>;
+}
+
+export interface CharactersRepository {
+  find(userId: string): Promise<StoredCharacter | null>;
+  findForUpdate(userId: string): Promise<StoredCharacter | null>;
+  save(userId: string, character: StoredCharacter): Promise<StoredCharacter>;
+  // 既にある場合は何もしない
+  create(userId: string, character: StoredCharacter): Promise<void>;
+  updateTheme(userId: string, theme: string): Promise<StoredCharacter>;
+}
+
+export interface RoutineSettingsRepository {
+  // 未作成なら既定の設定を返す
+  find(userId: string): Promise<StoredRoutineSettings>;
+  findForUpdate(userId: string): Promise<StoredRoutineSettings>;
+  save(userId: string, routineSettings: RoutineSettingsInput): Promise<void>;
+}
+
+export interface DayLogsRepository {
+  find(userId: string, date: string): Promise<DayLog | null>;
+  findForUpdate(userId: string, date: string): Promise<DayLog | null>;
+  findAll(userId: string): Promise<DayLog[]>;
+  findAllForUpdate(userId: string): Promise<DayLog[]>;
+  // 新しい日付から limit 件
+  findRecent(userId: string, limit: number): Promise<DayLog[]>;
+  // from〜to（両端を含む）のうち cursor より後の日付を古い順に limit 件
+  findInRange(userId: string, range: { from: string; to: string; cursor?: string | null; limit: number }): Promise<DayLog[]>;
+  findDates(userId: string): Promise<string[]>;
+  save(userId: string, log: DayLog): Promise<DayLog>;
+  // 同じ日付が複数ある場合は後のものを残す
+  saveMany(userId: string, logs: DayLog[]): Promise<void>;
+  // 渡したセクションだけを書き換える（rewards は渡した場合だけ）
+  patch(userId: string, date: string, sections: Partial<Pick<DayLog, 'morning' | 'evening'>>): Promise<DayLog>;
+  deleteExcept(userId: string, dates: string[]): Promise<void>;
+}
+
+export interface ExperienceLedgerRepository {
+  insert(
+    userId: string,
+    source: { date: string; section: RoutineType; routineId: string },
+    awards: ExperienceAward[],
+  ): Promise<void>;
+}
+
+export interface StreakFreezesRepository {
+  // 獲得日の古い順
+  findForUpdate(userId: string): Promise<StreakFreeze[]>;
+  // 同じ獲得日のものが既にある場合は何もしない
+  insert(userId: string, earnedOn: string): Promise<void>;
+  use(id: number, usedOn: string): Promise<void>;
+}
+
+export interface PushSubscriptionsRepository {
+  findSubscribers(): Promise<{ userId: string; routineSettings: StoredRoutineSettings }[]>;
+  findByUser(userId: string): Promise<StoredPushSubscription[]>;
+  save(userId: string, subscription: StoredPushSubscription): Promise<void>;
+  // userId を渡した場合はそのユーザーの購読だけを消す
+  delete(endpoint: string, userId?: string | null): Promise<void>;
+}
+
+export interface ReminderDeliveriesRepository {
+  // 未送信なら記録して true を返す
+  claim(userId: string, kind: ReminderKind, date: string): Promise<boolean>;
+}
+
+export interface MagicLinksRepository {
+  // 未使用なら使用済みにして true を返す
+  markUsed(nonce: string): Promise<boolean>;
+}
+
+export interface Repositories {
+  users: UsersRepository;
+  characters: CharactersRepository;
+  routineSettings: RoutineSettingsRepository;
+  dayLogs: DayLogsRepository;
+  experienceLedger: ExperienceLedgerRepository;
+  streakFreezes: StreakFreezesRepository;
+  pushSubscriptions: PushSubscriptionsRepository;
+  reminderDeliveries: ReminderDeliveriesRepository;
+  magicLinks: MagicLinksRepository;
+}
+
+export interface Storage extends Repositories {
+  // callback にはトランザクション内で使うリポジトリが渡され、失敗したら変更を取り消す
+  transaction<T>(callback: (repositories: Repositories) => Promise<T>): Promise<T>;
+}
+
+export function getStorage(): Storage;
+
+// テストなどで別のストレージに差し替える
+export function setStorage(next: Storage | null): void;
@@ -0,0 +1,32 @@
+import { createMemoryStorage } from './memory.js';
+import { createPostgresStorage } from './postgres.js';
+import { createSqliteStorage } from './sqlite.js';
+
+// 保存先を STORAGE_DRIVER（postgres | memory | sqlite、既定は postgres）で切り替える。
+// どのストレージも同じリポジトリ（users, characters, routineSettings, dayLogs, experienceLedger,
+// streakFreezes, pushSubscriptions, reminderDeliveries, magicLinks）と transaction(callback) を持ち、
+// transaction の callback にはトランザクション内で使うリポジトリが渡される（型は index.d.ts）
+const DRIVERS = {
+  postgres: createPostgresStorage,
+  memory: createMemoryStorage,
+  sqlite: createSqliteStorage,
+};
+
+let storage = null;
+
+export function getStorage() {
+  if (!storage) {
+    const driver = process.env.STORAGE_DRIVER || 'postgres';
+    const createStorage = DRIVERS[driver];
+    if (!createStorage) {
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver} (${Object.keys(DRIVERS).join(', ')})`);
+    }
+    storage = createStorage();
+  }
+  return storage;
+}
+
+// テストなどで別のストレージに差し替える
+export function setStorage(next) {
+  storage = next;
+}
@@ -0,0 +1,383 @@
+import {
+  toCharacter,
+  toDayLog,
+  toEveningJournal,
+  toPushSubscription,
+  toRoutineSettings,
+  toUser,
+} from '../records.js';
+import { createSerialQueue, serialiseRepositories, toTimeColumn } from './shared.js';
+
+// プロセス内のメモリに保存するストレージ（ローカルでの動作確認・テスト用。再起動すると消える）。
+// 行は postgres と同じ列名で持ち、records.js の変換をそのまま使う
+function createState() {
+  return {
+    users: new Map(),
+    characters: new Map(),
+    routineSettings: new Map(),
+    dayLogs: new Map(),
+    experienceLedger: [],
+    streakFreezes: [],
+    pushSubscriptions: new Map(),
+    reminderDeliveries: new Set(),
+    usedMagicLinks: new Set(),
+    nextId: 1,
+  };
+}
+
+const dayLogKey = (userId, date) => `${userId} ${date}`;
+const byDate = (a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0);
+
+function createRepositories(store) {
+  const userDayLogRows = (userId) =>
+    [...store.state.dayLogs.values()].filter((row) => row.user_id === userId).sort(byDate);
+
+  const users = {
+    async find(userId) {
+      const row = store.state.users.get(userId);
+      return row ? toUser(row) : null;
+    },
+
+    async findIdByVerifiedEmail(email) {
+      for (const row of store.state.users.values()) {
+        if (row.email_verified && row.email?.toLowerCase() === email) return row.id;
+      }
+      return null;
+    },
+
+    async create(userId, { email = null, emailVerified = false, claimed = false, avatar = null } = {}) {
+      if (store.state.users.has(userId)) return;
+      const now = new Date();
+      store.state.users.set(userId, {
+        id: userId,
+        display_name: null,
+        email,
+        avatar_config: JSON.stringify(avatar ?? {}),
+        email_verified: emailVerified,
+        claimed_at: claimed ? now : null,
+        created_at: now,
+        updated_at: now,
+      });
+    },
+
+    async attachVerifiedEmail(userId, email) {
+      const row = store.state.users.get(userId);
+      if (!row || row.email_verified) return false;
+      Object.assign(row, { email, email_verified: true, updated_at: new Date() });
+      return true;
+    },
+
+    async claimLegacy(userId) {
+      const row = store.state.users.get(userId);
+      if (!row || row.claimed_at || row.email_verified) return false;
+      Object.assign(row, { claimed_at: new Date(), updated_at: new Date() });
+      return true;
+    },
+
+    async saveProfile(userId, { displayName, email, avatar }) {
+      await users.create(userId);
+      const row = store.state.users.get(userId);
+      Object.assign(row, {
+        display_name: displayName,
+        email_verified: row.email_verified && row.email === email,
+        email,
+        avatar_config: JSON.stringify(avatar),
+        updated_at: new Date(),
+      });
+    },
+
+    async restoreProfile(userId, { displayName, avatar }) {
+      const row = store.state.users.get(userId);
+      if (!row) return;
+      Object.assign(row, {
+        display_name: displayName,
+        avatar_config: avatar ? JSON.stringify(avatar) : row.avatar_config,
+        updated_at: new Date(),
+      });
+    },
+  };
+
+  const writeCharacter = (userId, values) => {
+    const row = store.state.characters.get(userId) ?? {
+      user_id: userId,
+      level: 1,
+      experience: 0,
+      experience_to_next: 100,
+      theme: 'plant',
+      evolution_stage: 0,
+      last_active_date: null,
+    };
+    Object.assign(row, values, { updated_at: new Date() });
+    store.state.characters.set(userId, row);
+    return toCharacter(row);
+  };
+
+  const toCharacterColumns = (character) => ({
+    level: character.level,
+    experience: character.experience,
+    experience_to_next: character.experienceToNext,
+    theme: character.theme,
+    evolution_stage: character.evolutionStage,
+    last_active_date: character.lastActiveDate ?? null,
+  });
+
+  const characters = {
+    async find(userId) {
+      const row = store.state.characters.get(userId);
+      return row ? toCharacter(row) : null;
+    },
+
+    async findForUpdate(userId) {
+      return characters.find(userId);
+    },
+
+    async save(userId, character) {
+      return writeCharacter(userId, toCharacterColumns(character));
+    },
+
+    async create(userId, character) {
+      if (!store.state.characters.has(userId)) {
+        writeCharacter(userId, toCharacterColumns(character));
+      }
+    },
+
+    async updateTheme(userId, theme) {
+      return writeCharacter(userId, { theme });
+    },
+  };
+
+  const routineSettings = {
+    async find(userId) {
+      return toRoutineSettings(store.state.routineSettings.get(userId));
+    },
+
+    async findForUpdate(userId) {
+      return routineSettings.find(userId);
+    },
+
+    async save(userId, { defaultMorningRoutines, defaultEveningRoutines, settings }) {
+      const current = store.state.routineSettings.get(userId);
+      store.state.routineSettings.set(userId, {
+        user_id: userId,
+        morning_routines: JSON.stringify(defaultMorningRoutines),
+        evening_routines: JSON.stringify(defaultEveningRoutines),
+        morning_notification_time: toTimeColumn(settings.morningNotificationTime),
+        evening_notification_time: toTimeColumn(settings.eveningNotificationTime),
+        time_zone: settings.timeZone || current?.time_zone || null,
+        day_start_time: toTimeColumn(settings.dayStartTime) || current?.day_start_time || '00:00:00',
+        backfill_grace_days: settings.backfillGraceDays ?? current?.backfill_grace_days ?? 1,
+      });
+    },
+  };
+
+  const writeDayLog = (userId, date, values) => {
+    const key = dayLogKey(userId, date);
+    const now = new Date();
+    const row = store.state.dayLogs.get(key) ?? {
+      user_id: userId,
+      date,
+      morning_routines: '[]',
+      morning_completed: false,
+      evening_routines: '[]',
+      evening_completed: false,
+      evening_journal: null,
+      morning_rewards: null,
+      evening_rewards: null,
+      created_at: now,
+    };
+    Object.assign(row, values, { updated_at: now });
+    store.state.dayLogs.set(key, row);
+    return toDayLog(row);
+  };
+
+  const dayLogs = {
+    async find(userId, date) {
+      const row = store.state.dayLogs.get(dayLogKey(userId, date));
+      return row ? toDayLog(row) : null;
+    },
+
+    async findForUpdate(userId, date) {
+      return dayLogs.find(userId, date);
+    },
+
+    async findAll(userId) {
+      return userDayLogRows(userId).map(toDayLog);
+    },
+
+    async findAllForUpdate(userId) {
+      return dayLogs.findAll(userId);
+    },
+
+    async findRecent(userId, limit) {
+      return userDayLogRows(userId).reverse().slice(0, limit).map(toDayLog);
+    },
+
+    async findInRange(userId, { from, to, cursor = null, limit }) {
+      return userDayLogRows(userId)
+        .filter((row) => row.date >= from && row.date <= to && (cursor === null || row.date > cursor))
+        .slice(0, limit)
+        .map(toDayLog);
+    },
+
+    async findDates(userId) {
+      return userDayLogRows(userId).map((row) => row.date);
+    },
+
+    async save(userId, log) {
+      return writeDayLog(userId, log.date, {
+        morning_routines: JSON.stringify(log.morning.routines),
+        morning_completed: log.morning.completed,
+        evening_routines: JSON.stringify(log.evening.routines),
+        evening_completed: log.evening.completed,
+        evening_journal: toEveningJournal(log.evening),
+      });
+    },
+
+    async saveMany(userId, logs) {
+      for (const log of logs) {
+        await dayLogs.save(userId, log);
+      }
+    },
+
+    async patch(userId, date, { morning, evening }) {
+      return writeDayLog(userId, date, {
+        ...(morning && {
+          morning_routines: JSON.stringify(morning.routines),
+          morning_completed: morning.completed,
+        }),
+        ...(evening && {
+          evening_routines: JSON.stringify(evening.routines),
+          evening_completed: evening.completed,
+          evening_journal: toEveningJournal(evening),
+        }),
+        ...(morning?.rewards && { morning_rewards: JSON.stringify(morning.rewards) }),
+        ...(evening?.rewards && { evening_rewards: JSON.stringify(evening.rewards) }),
+      });
+    },
+
+    async deleteExcept(userId, dates) {
+      const keep = new Set(dates);
+      for (const row of userDayLogRows(userId)) {
+        if (!keep.has(row.date)) store.state.dayLogs.delete(dayLogKey(userId, row.date));
+      }
+    },
+  };
+
+  const experienceLedger = {
+    async insert(userId, { date, section, routineId }, awards) {
+      for (const award of awards) {
+        store.state.experienceLedger.push({
+          id: store.state.nextId++,
+          user_id: userId,
+          date,
+          section,
+          routine_id: routineId,
+          reason: award.reason,
+          amount: award.amount,
+          created_at: new Date(),
+        });
+      }
+    },
+  };
+
+  const streakFreezes = {
+    async findForUpdate(userId) {
+      return store.state.streakFreezes
+        .filter((row) => row.user_id === userId)
+        .sort((a, b) => (a.earned_on < b.earned_on ? -1 : 1))
+        .map((row) => ({ id: row.id, earnedOn: row.earned_on, usedOn: row.used_on }));
+    },
+
+    async insert(userId, earnedOn) {
+      if (store.state.streakFreezes.some((row) => row.user_id === userId && row.earned_on === earnedOn)) return;
+      store.state.streakFreezes.push({ id: store.state.nextId++, user_id: userId, earned_on: earnedOn, used_on: null });
+    },
+
+    async use(id, usedOn) {
+      const row = store.state.streakFreezes.find((freeze) => freeze.id === id);
+      if (row) row.used_on = usedOn;
+    },
+  };
+
+  const pushSubscriptions = {
+    async findSubscribers() {
+      const userIds = [...new Set([...store.state.pushSubscriptions.values()].map((row) => row.user_id))].sort();
+      return userIds.map((userId) => ({
+        userId,
+        routineSettings: toRoutineSettings(store.state.routineSettings.get(userId)),
+      }));
+    },
+
+    async findByUser(userId) {
+      return [...store.state.pushSubscriptions.values()]
+        .filter((row) => row.user_id === userId)
+        .map(toPushSubscription);
+    },
+
+    async save(userId, subscription) {
+      store.state.pushSubscriptions.set(subscription.endpoint, {
+        user_id: userId,
+        endpoint: subscription.endpoint,
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+      });
+    },
+
+    async delete(endpoint, userId = null) {
+      const row = store.state.pushSubscriptions.get(endpoint);
+      if (row && (userId === null || row.user_id === userId)) {
+        store.state.pushSubscriptions.delete(endpoint);
+      }
+    },
+  };
+
+  const reminderDeliveries = {
+    async claim(userId, kind, date) {
+      const key = `${userId} ${kind} ${date}`;
+      if (store.state.reminderDeliveries.has(key)) return false;
+      store.state.reminderDeliveries.add(key);
+      return true;
+    },
+  };
+
+  const magicLinks = {
+    async markUsed(nonce) {
+      if (store.state.usedMagicLinks.has(nonce)) return false;
+      store.state.usedMagicLinks.add(nonce);
+      return true;
+    },
+  };
+
+  return {
+    users,
+    characters,
+    routineSettings,
+    dayLogs,
+    experienceLedger,
+    streakFreezes,
+    pushSubscriptions,
+    reminderDeliveries,
+    magicLinks,
+  };
+}
+
+export function createMemoryStorage() {
+  const store = { state: createState() };
+  const repositories = createRepositories(store);
+  const enqueue = createSerialQueue();
+
+  return {
+    ...serialiseRepositories(repositories, enqueue),
+    // 失敗したら開始前の状態に戻す
+    transaction: (callback) =>
+      enqueue(async () => {
+        const snapshot = structuredClone(store.state);
+        try {
+          return await callback(repositories);
+        } catch (error) {
+          store.state = snapshot;
+          throw error;
+        }
+      }),
+  };
+}
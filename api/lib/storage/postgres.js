@@ -0,0 +1,459 @@
+import { getDbPool, withTransaction } from '../db.js';
+import {
+  toCharacter,
+  toDateString,
+  toDayLog,
+  toEveningJournal,
+  toPushSubscription,
+  toRoutineSettings,
+  toUser,
+} from '../records.js';
+
+// db はプール、またはトランザクション中のクライアント（…ForUpdate は行ロックを取る）
+function createRepositories(db) {
+  const users = {
+    async find(userId) {
+      const result = await db.query('SELECT * FROM users WHERE id = $1', [userId]);
+      return result.rows[0] ? toUser(result.rows[0]) : null;
+    },
+
+    async findIdByVerifiedEmail(email) {
+      const result = await db.query('SELECT id FROM users WHERE LOWER(email) = $1 AND email_verified LIMIT 1', [email]);
+      return result.rows[0]?.id ?? null;
+    },
+
+    // 既にある場合は何もしない。claimed は旧IDの引き継ぎが済んでいる（新しく発行した）ユーザー
+    async create(userId, { email = null, emailVerified = false, claimed = false, avatar = null } = {}) {
+      await db.query(
+        `INSERT INTO users (id, email, email_verified, claimed_at, avatar_config)
+         VALUES ($1, $2, $3, CASE WHEN $4 THEN CURRENT_TIMESTAMP END, COALESCE($5, '{}'::jsonb))
+         ON CONFLICT (id) DO NOTHING`,
+        [userId, email, emailVerified, claimed, avatar]
+      );
+    },
+
+    // メール未確認のアカウントにだけ確認済みのメールを紐付ける
+    async attachVerifiedEmail(userId, email) {
+      const result = await db.query(
+        `UPDATE users SET email = $2, email_verified = TRUE
+         WHERE id = $1 AND NOT email_verified
+         RETURNING id`,
+        [userId, email]
+      );
+      return result.rowCount > 0;
+    },
+
+    // メール未確認かつ未移行の旧IDを一度だけ引き継ぐ
+    async claimLegacy(userId) {
+      const result = await db.query(
+        `UPDATE users SET claimed_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND claimed_at IS NULL AND NOT email_verified
+         RETURNING id`,
+        [userId]
+      );
+      return result.rowCount > 0;
+    },
+
+    // メールアドレスを変えた場合は確認済みの状態を外す
+    async saveProfile(userId, { displayName, email, avatar }) {
+      await db.query(
+        `INSERT INTO users (id, display_name, email, avatar_config)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (id) DO UPDATE SET
+           display_name = EXCLUDED.display_name,
+           email_verified = users.email_verified AND users.email IS NOT DISTINCT FROM EXCLUDED.email,
+           email = EXCLUDED.email,
+           avatar_config = EXCLUDED.avatar_config,
+           updated_at = CURRENT_TIMESTAMP`,
+        [userId, displayName, email, avatar]
+      );
+    },
+
+    // バックアップからの復元用（メールアドレスは変えない。avatar が null なら今のまま）
+    async restoreProfile(userId, { displayName, avatar }) {
+      await db.query('UPDATE users SET display_name = $2, avatar_config = COALESCE($3, avatar_config) WHERE id = $1', [
+        userId,
+        displayName,
+        avatar ?? null,
+      ]);
+    },
+  };
+
+  const characters = {
+    async find(userId) {
+      const result = await db.query('SELECT * FROM characters WHERE user_id = $1', [userId]);
+      return result.rows[0] ? toCharacter(result.rows[0]) : null;
+    },
+
+    async findForUpdate(userId) {
+      const result = await db.query('SELECT * FROM characters WHERE user_id = $1 FOR UPDATE', [userId]);
+      return result.rows[0] ? toCharacter(result.rows[0]) : null;
+    },
+
+    async save(userId, character) {
+      const result = await db.query(
+        `INSERT INTO characters (user_id, level, experience, experience_to_next, theme, evolution_stage, last_active_date)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (user_id) DO UPDATE SET
+         level = EXCLUDED.level,
+         experience = EXCLUDED.experience,
+         experience_to_next = EXCLUDED.experience_to_next,
+         theme = EXCLUDED.theme,
+         evolution_stage = EXCLUDED.evolution_stage,
+         last_active_date = EXCLUDED.last_active_date
+         RETURNING *`,
+        [
+          userId,
+          character.level,
+          character.experience,
+          character.experienceToNext,
+          character.theme,
+          character.evolutionStage,
+          character.lastActiveDate,
+        ]
+      );
+      return toCharacter(result.rows[0]);
+    },
+
+    // 既にある場合は何もしない（登録時の初期値）
+    async create(userId, character) {
+      await db.query(
+        `INSERT INTO characters (user_id, level, experience, experience_to_next, theme, evolution_stage, last_active_date)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (user_id) DO NOTHING`,
+        [
+          userId,
+          character.level,
+          character.experience,
+          character.experienceToNext,
+          character.theme,
+          character.evolutionStage,
+          character.lastActiveDate,
+        ]
+      );
+    },
+
+    // クライアントから変更できるのは見た目の設定だけ（成長値はサーバーが計算する）
+    async updateTheme(userId, theme) {
+      const result = await db.query(
+        `INSERT INTO characters (user_id, theme)
+         VALUES ($1, $2)
+         ON CONFLICT (user_id) DO UPDATE SET theme = EXCLUDED.theme
+         RETURNING *`,
+        [userId, theme]
+      );
+      return toCharacter(result.rows[0]);
+    },
+  };
+
+  const routineSettings = {
+    async find(userId) {
+      const result = await db.query('SELECT * FROM routine_settings WHERE user_id = $1', [userId]);
+      return toRoutineSettings(result.rows[0]);
+    },
+
+    // 設定の行が未作成でも他のトランザクションと競合しないよう、ユーザーの行をロックする
+    async findForUpdate(userId) {
+      const result = await db.query(
+        `SELECT routine_settings.* FROM users
+         LEFT JOIN routine_settings ON routine_settings.user_id = users.id
+         WHERE users.id = $1 FOR UPDATE OF users`,
+        [userId]
+      );
+      const row = result.rows[0];
+      return toRoutineSettings(row?.user_id ? row : undefined);
+    },
+
+    async save(userId, { defaultMorningRoutines, defaultEveningRoutines, settings }) {
+      await db.query(
+        `INSERT INTO routine_settings (user_id, morning_routines, evening_routines, morning_notification_time, evening_notification_time, time_zone, day_start_time, backfill_grace_days)
+         VALUES ($1, $2, $3, $4, $5, $6, COALESCE($7, '00:00')::time, COALESCE($8, 1))
+         ON CONFLICT (user_id) DO UPDATE SET
+         morning_routines = EXCLUDED.morning_routines,
+         evening_routines = EXCLUDED.evening_routines,
+         morning_notification_time = EXCLUDED.morning_notification_time,
+         evening_notification_time = EXCLUDED.evening_notification_time,
+         time_zone = COALESCE(EXCLUDED.time_zone, routine_settings.time_zone),
+         day_start_time = COALESCE($7::time, routine_settings.day_start_time),
+         backfill_grace_days = COALESCE($8, routine_settings.backfill_grace_days)`,
+        [
+          userId,
+          JSON.stringify(defaultMorningRoutines),
+          JSON.stringify(defaultEveningRoutines),
+          settings.morningNotificationTime,
+          settings.eveningNotificationTime,
+          settings.timeZone || null,
+          settings.dayStartTime || null,
+          settings.backfillGraceDays ?? null,
+        ]
+      );
+    },
+  };
+
+  const dayLogs = {
+    async find(userId, date) {
+      const result = await db.query('SELECT * FROM day_logs WHERE user_id = $1 AND date = $2', [userId, date]);
+      return result.rows[0] ? toDayLog(result.rows[0]) : null;
+    },
+
+    async findForUpdate(userId, date) {
+      const result = await db.query('SELECT * FROM day_logs WHERE user_id = $1 AND date = $2 FOR UPDATE', [
+        userId,
+        date,
+      ]);
+      return result.rows[0] ? toDayLog(result.rows[0]) : null;
+    },
+
+    async findAll(userId) {
+      const result = await db.query('SELECT * FROM day_logs WHERE user_id = $1 ORDER BY date', [userId]);
+      return result.rows.map(toDayLog);
+    },
+
+    async findAllForUpdate(userId) {
+      const result = await db.query('SELECT * FROM day_logs WHERE user_id = $1 ORDER BY date FOR UPDATE', [userId]);
+      return result.rows.map(toDayLog);
+    },
+
+    // 新しい順に limit 件
+    async findRecent(userId, limit) {
+      const result = await db.query('SELECT * FROM day_logs WHERE user_id = $1 ORDER BY date DESC LIMIT $2', [
+        userId,
+        limit,
+      ]);
+      return result.rows.map(toDayLog);
+    },
+
+    // cursor より後の日付から limit 件を古い順に返す（続きの有無の判定用に呼び出し側で1件多く指定する）
+    async findInRange(userId, { from, to, cursor = null, limit }) {
+      const result = await db.query(
+        `SELECT * FROM day_logs
+         WHERE user_id = $1 AND date >= $2 AND date <= $3 AND ($4::date IS NULL OR date > $4::date)
+         ORDER BY date
+         LIMIT $5`,
+        [userId, from, to, cursor, limit]
+      );
+      return result.rows.map(toDayLog);
+    },
+
+    // 記録がある日付だけを返す（取り込み前の確認用）
+    async findDates(userId) {
+      const result = await db.query('SELECT date FROM day_logs WHERE user_id = $1 ORDER BY date', [userId]);
+      return result.rows.map((row) => toDateString(row.date));
+    },
+
+    async save(userId, log) {
+      const result = await db.query(
+        `INSERT INTO day_logs (user_id, date, morning_routines, morning_completed, evening_routines, evening_completed, evening_journal)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (user_id, date) DO UPDATE SET
+         morning_routines = EXCLUDED.morning_routines,
+         morning_completed = EXCLUDED.morning_completed,
+         evening_routines = EXCLUDED.evening_routines,
+         evening_completed = EXCLUDED.evening_completed,
+         evening_journal = EXCLUDED.evening_journal
+         RETURNING *`,
+        [
+          userId,
+          log.date,
+          JSON.stringify(log.morning.routines),
+          log.morning.completed,
+          JSON.stringify(log.evening.routines),
+          log.evening.completed,
+          toEveningJournal(log.evening),
+        ]
+      );
+      return toDayLog(result.rows[0]);
+    },
+
+    // 複数日をまとめて保存する（UNNEST で1回のクエリにする）。同じ日付が複数ある場合は後のものを使う
+    async saveMany(userId, logs) {
+      const unique = [...new Map(logs.map((log) => [log.date, log])).values()];
+      if (unique.length === 0) return;
+      await db.query(
+        `INSERT INTO day_logs (user_id, date, morning_routines, morning_completed, evening_routines, evening_completed, evening_journal)
+         SELECT $1, date, morning_routines::jsonb, morning_completed, evening_routines::jsonb, evening_completed, evening_journal::jsonb
+         FROM UNNEST($2::date[], $3::text[], $4::boolean[], $5::text[], $6::boolean[], $7::text[])
+           AS logs (date, morning_routines, morning_completed, evening_routines, evening_completed, evening_journal)
+         ON CONFLICT (user_id, date) DO UPDATE SET
+         morning_routines = EXCLUDED.morning_routines,
+         morning_completed = EXCLUDED.morning_completed,
+         evening_routines = EXCLUDED.evening_routines,
+         evening_completed = EXCLUDED.evening_completed,
+         evening_journal = EXCLUDED.evening_journal`,
+        [
+          userId,
+          unique.map((log) => log.date),
+          unique.map((log) => JSON.stringify(log.morning.routines)),
+          unique.map((log) => log.morning.completed),
+          unique.map((log) => JSON.stringify(log.evening.routines)),
+          unique.map((log) => log.evening.completed),
+          unique.map((log) => toEveningJournal(log.evening)),
+        ]
+      );
+    },
+
+    // 指定されたセクションだけを更新する（未指定のセクションは既存値を維持）。
+    // 付与済み経験値の記録（rewards）は指定された場合のみ更新する
+    async patch(userId, date, { morning, evening }) {
+      const result = await db.query(
+        `INSERT INTO day_logs (user_id, date, morning_routines, morning_completed, evening_routines, evening_completed, evening_journal, morning_rewards, evening_rewards)
+         VALUES ($1, $2, COALESCE($3, '[]'::jsonb), COALESCE($4, FALSE), COALESCE($5, '[]'::jsonb), COALESCE($6, FALSE), $7, $9, $10)
+         ON CONFLICT (user_id, date) DO UPDATE SET
+         morning_routines = COALESCE($3, day_logs.morning_routines),
+         morning_completed = COALESCE($4, day_logs.morning_completed),
+         evening_routines = COALESCE($5, day_logs.evening_routines),
+         evening_completed = COALESCE($6, day_logs.evening_completed),
+         evening_journal = CASE WHEN $8 THEN $7 ELSE day_logs.evening_journal END,
+         morning_rewards = COALESCE($9, day_logs.morning_rewards),
+         evening_rewards = COALESCE($10, day_logs.evening_rewards)
+         RETURNING *`,
+        [
+          userId,
+          date,
+          morning ? JSON.stringify(morning.routines) : null,
+          morning ? morning.completed : null,
+          evening ? JSON.stringify(evening.routines) : null,
+          evening ? evening.completed : null,
+          evening ? toEveningJournal(evening) : null,
+          Boolean(evening),
+          morning?.rewards ? JSON.stringify(morning.rewards) : null,
+          evening?.rewards ? JSON.stringify(evening.rewards) : null,
+        ]
+      );
+      return toDayLog(result.rows[0]);
+    },
+
+    // dates に含まれない日の記録を削除する（バックアップで置き換えるとき用）
+    async deleteExcept(userId, dates) {
+      await db.query('DELETE FROM day_logs WHERE user_id = $1 AND NOT (date = ANY($2::date[]))', [userId, dates]);
+    },
+  };
+
+  const experienceLedger = {
+    async insert(userId, { date, section, routineId }, awards) {
+      for (const award of awards) {
+        await db.query(
+          `INSERT INTO experience_ledger (user_id, date, section, routine_id, reason, amount)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [userId, date, section, routineId, award.reason, award.amount]
+        );
+      }
+    },
+  };
+
+  const streakFreezes = {
+    async findForUpdate(userId) {
+      const result = await db.query(
+        'SELECT id, earned_on, used_on FROM streak_freezes WHERE user_id = $1 ORDER BY earned_on FOR UPDATE',
+        [userId]
+      );
+      return result.rows.map((row) => ({
+        id: row.id,
+        earnedOn: toDateString(row.earned_on),
+        usedOn: toDateString(row.used_on),
+      }));
+    },
+
+    async insert(userId, earnedOn) {
+      await db.query(
+        'INSERT INTO streak_freezes (user_id, earned_on) VALUES ($1, $2) ON CONFLICT (user_id, earned_on) DO NOTHING',
+        [userId, earnedOn]
+      );
+    },
+
+    async use(id, usedOn) {
+      await db.query('UPDATE streak_freezes SET used_on = $2 WHERE id = $1', [id, usedOn]);
+    },
+  };
+
+  const pushSubscriptions = {
+    // 購読のあるユーザーとそのルーティン設定（リマインダーの送信判定用）
+    async findSubscribers() {
+      const result = await db.query(
+        `SELECT DISTINCT ON (ps.user_id) ps.user_id AS subscriber_id, rs.*
+         FROM push_subscriptions ps
+         LEFT JOIN routine_settings rs ON rs.user_id = ps.user_id
+         ORDER BY ps.user_id`
+      );
+      return result.rows.map((row) => ({
+        userId: row.subscriber_id,
+        routineSettings: toRoutineSettings(row.user_id ? row : null),
+      }));
+    },
+
+    async findByUser(userId) {
+      const result = await db.query('SELECT endpoint, p256dh, auth FROM push_subscriptions WHERE user_id = $1', [
+        userId,
+      ]);
+      return result.rows.map(toPushSubscription);
+    },
+
+    async save(userId, subscription) {
+      await db.query(
+        `INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (endpoint) DO UPDATE SET
+         user_id = EXCLUDED.user_id,
+         p256dh = EXCLUDED.p256dh,
+         auth = EXCLUDED.auth`,
+        [userId, subscription.endpoint, subscription.keys.p256dh, subscription.keys.auth]
+      );
+    },
+
+    // userId を指定した場合はそのユーザーの購読だけを消す
+    async delete(endpoint, userId = null) {
+      await db.query('DELETE FROM push_subscriptions WHERE endpoint = $1 AND ($2::varchar IS NULL OR user_id = $2)', [
+        endpoint,
+        userId,
+      ]);
+    },
+  };
+
+  const reminderDeliveries = {
+    // 送信済みとして記録できた（まだ送っていなかった）場合だけ true
+    async claim(userId, kind, date) {
+      const result = await db.query(
+        `INSERT INTO reminder_deliveries (user_id, kind, date)
+         VALUES ($1, $2, $3)
+         ON CONFLICT DO NOTHING
+         RETURNING user_id`,
+        [userId, kind, date]
+      );
+      return result.rowCount > 0;
+    },
+  };
+
+  const magicLinks = {
+    // 使用済みとして記録できた（まだ使われていなかった）場合だけ true。期限（15分）を過ぎた記録は消す
+    async markUsed(nonce) {
+      await db.query(`DELETE FROM used_magic_links WHERE used_at < CURRENT_TIMESTAMP - INTERVAL '1 day'`);
+      const result = await db.query(
+        `INSERT INTO used_magic_links (nonce)
+         VALUES ($1)
+         ON CONFLICT DO NOTHING
+         RETURNING nonce`,
+        [nonce]
+      );
+      return result.rowCount > 0;
+    },
+  };
+
+  return {
+    users,
+    characters,
+    routineSettings,
+    dayLogs,
+    experienceLedger,
+    streakFreezes,
+    pushSubscriptions,
+    reminderDeliveries,
+    magicLinks,
+  };
+}
+
+export function createPostgresStorage() {
+  return {
+    ...createRepositories(getDbPool()),
+    transaction: (callback) => withTransaction((client) => callback(createRepositories(client))),
+  };
+}
@@ -0,0 +1,29 @@
+// メモリ・SQLite のストレージで共通の処理。
+// どちらもプロセス内で1つのデータ（接続）を共有するため、操作を1つずつ順に実行してトランザクションを分離する
+
+export function createSerialQueue() {
+  let tail = Promise.resolve();
+  return (task) => {
+    const run = tail.then(task);
+    tail = run.catch(() => {});
+    return run;
+  };
+}
+
+// トランザクション外から呼ばれるリポジトリの各メソッドを、順番待ちの後に実行するようにする
+export function serialiseRepositories(repositories, enqueue) {
+  return Object.fromEntries(
+    Object.entries(repositories).map(([name, repository]) => [
+      name,
+      Object.fromEntries(
+        Object.entries(repository).map(([method, fn]) => [method, (...args) => enqueue(() => fn(...args))])
+      ),
+    ])
+  );
+}
+
+// postgres の TIME 型と同じく HH:mm:ss で保存する
+export function toTimeColumn(value) {
+  if (!value) return null;
+  return value.length === 5 ? `${value}:00` : value;
+}
@@ -0,0 +1,524 @@
+import { mkdirSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import {
+  toCharacter,
+  toDayLog,
+  toEveningJournal,
+  toPushSubscription,
+  toRoutineSettings,
+  toUser,
+} from '../records.js';
+import { createSerialQueue, serialiseRepositories, toTimeColumn } from './shared.js';
+
+// SQLite のファイルに保存するストレージ（ローカルでの動作確認・テスト用）。
+// better-sqlite3 は optionalDependencies のため、このストレージを選んだときだけ読み込む。
+// テーブルは postgres と同じ列名で、開いたときに作成する（マイグレーションは postgres 用）
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    display_name TEXT,
+    email TEXT,
+    avatar_config TEXT DEFAULT '{}',
+    email_verified INTEGER DEFAULT 0,
+    claimed_at TEXT,
+    created_at TEXT,
+    updated_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS characters (
+    user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    level INTEGER DEFAULT 1,
+    experience INTEGER DEFAULT 0,
+    experience_to_next INTEGER DEFAULT 100,
+    theme TEXT DEFAULT 'plant',
+    evolution_stage INTEGER DEFAULT 0,
+    last_active_date TEXT,
+    updated_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS routine_settings (
+    user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    morning_routines TEXT,
+    evening_routines TEXT,
+    morning_notification_time TEXT DEFAULT '08:00:00',
+    evening_notification_time TEXT DEFAULT '22:00:00',
+    time_zone TEXT,
+    day_start_time TEXT DEFAULT '00:00:00',
+    backfill_grace_days INTEGER DEFAULT 1
+  );
+
+  CREATE TABLE IF NOT EXISTS day_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+    date TEXT NOT NULL,
+    morning_routines TEXT,
+    morning_completed INTEGER DEFAULT 0,
+    evening_routines TEXT,
+    evening_completed INTEGER DEFAULT 0,
+    morning_rewards TEXT,
+    evening_rewards TEXT,
+    evening_journal TEXT,
+    created_at TEXT,
+    updated_at TEXT,
+    UNIQUE (user_id, date)
+  );
+
+  CREATE TABLE IF NOT EXISTS experience_ledger (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    date TEXT NOT NULL,
+    section TEXT NOT NULL,
+    routine_id TEXT,
+    reason TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    created_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS streak_freezes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    earned_on TEXT NOT NULL,
+    used_on TEXT,
+    created_at TEXT,
+    UNIQUE (user_id, earned_on)
+  );
+
+  CREATE TABLE IF NOT EXISTS push_subscriptions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    endpoint TEXT NOT NULL UNIQUE,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    created_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS reminder_deliveries (
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    date TEXT NOT NULL,
+    sent_at TEXT,
+    PRIMARY KEY (user_id, kind, date)
+  );
+
+  CREATE TABLE IF NOT EXISTS used_magic_links (
+    nonce TEXT PRIMARY KEY,
+    used_at TEXT
+  );
+`;
+
+// toDayLog などが読めるよう ISO 8601（UTC）で保存する
+const NOW = `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+
+// better-sqlite3 は真偽値を受け付けないため 0/1 にする
+const flag = (value) => (value ? 1 : 0);
+
+function openDatabase(filename) {
+  const require = createRequire(import.meta.url);
+  const Database = require('better-sqlite3');
+  if (filename !== ':memory:') {
+    mkdirSync(path.dirname(filename), { recursive: true });
+  }
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+  return db;
+}
+
+function createRepositories(db) {
+  const get = (sql, params = []) => db.prepare(sql).get(params);
+  const all = (sql, params = []) => db.prepare(sql).all(params);
+  const run = (sql, params = []) => db.prepare(sql).run(params);
+
+  const users = {
+    async find(userId) {
+      const row = get('SELECT * FROM users WHERE id = ?', [userId]);
+      return row ? toUser(row) : null;
+    },
+
+    async findIdByVerifiedEmail(email) {
+      return get('SELECT id FROM users WHERE LOWER(email) = ? AND email_verified LIMIT 1', [email])?.id ?? null;
+    },
+
+    async create(userId, { email = null, emailVerified = false, claimed = false, avatar = null } = {}) {
+      run(
+        `INSERT INTO users (id, email, email_verified, claimed_at, avatar_config, created_at, updated_at)
+         VALUES (?, ?, ?, CASE WHEN ? THEN ${NOW} END, ?, ${NOW}, ${NOW})
+         ON CONFLICT (id) DO NOTHING`,
+        [userId, email, flag(emailVerified), flag(claimed), JSON.stringify(avatar ?? {})]
+      );
+    },
+
+    async attachVerifiedEmail(userId, email) {
+      const result = run(
+        `UPDATE users SET email = ?, email_verified = 1, updated_at = ${NOW}
+         WHERE id = ? AND NOT email_verified`,
+        [email, userId]
+      );
+      return result.changes > 0;
+    },
+
+    async claimLegacy(userId) {
+      const result = run(
+        `UPDATE users SET claimed_at = ${NOW}, updated_at = ${NOW}
+         WHERE id = ? AND claimed_at IS NULL AND NOT email_verified`,
+        [userId]
+      );
+      return result.changes > 0;
+    },
+
+    async saveProfile(userId, { displayName, email, avatar }) {
+      run(
+        `INSERT INTO users (id, display_name, email, avatar_config, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ${NOW}, ${NOW})
+         ON CONFLICT (id) DO UPDATE SET
+           display_name = excluded.display_name,
+           email_verified = users.email_verified AND users.email IS excluded.email,
+           email = excluded.email,
+           avatar_config = excluded.avatar_config,
+           updated_at = ${NOW}`,
+        [userId, displayName, email, JSON.stringify(avatar)]
+      );
+    },
+
+    async restoreProfile(userId, { displayName, avatar }) {
+      run(
+        `UPDATE users SET display_name = ?, avatar_config = COALESCE(?, avatar_config), updated_at = ${NOW}
+         WHERE id = ?`,
+        [displayName, avatar ? JSON.stringify(avatar) : null, userId]
+      );
+    },
+  };
+
+  const toCharacterParams = (userId, character) => [
+    userId,
+    character.level,
+    character.experience,
+    character.experienceToNext,
+    character.theme,
+    character.evolutionStage,
+    character.lastActiveDate ?? null,
+  ];
+
+  const characters = {
+    async find(userId) {
+      const row = get('SELECT * FROM characters WHERE user_id = ?', [userId]);
+      return row ? toCharacter(row) : null;
+    },
+
+    async findForUpdate(userId) {
+      return characters.find(userId);
+    },
+
+    async save(userId, character) {
+      const row = get(
+        `INSERT INTO characters (user_id, level, experience, experience_to_next, theme, evolution_stage, last_active_date, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ${NOW})
+         ON CONFLICT (user_id) DO UPDATE SET
+         level = excluded.level,
+         experience = excluded.experience,
+         experience_to_next = excluded.experience_to_next,
+         theme = excluded.theme,
+         evolution_stage = excluded.evolution_stage,
+         last_active_date = excluded.last_active_date,
+         updated_at = ${NOW}
+         RETURNING *`,
+        toCharacterParams(userId, character)
+      );
+      return toCharacter(row);
+    },
+
+    async create(userId, character) {
+      run(
+        `INSERT INTO characters (user_id, level, experience, experience_to_next, theme, evolution_stage, last_active_date, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ${NOW})
+         ON CONFLICT (user_id) DO NOTHING`,
+        toCharacterParams(userId, character)
+      );
+    },
+
+    async updateTheme(userId, theme) {
+      const row = get(
+        `INSERT INTO characters (user_id, theme, updated_at)
+         VALUES (?, ?, ${NOW})
+         ON CONFLICT (user_id) DO UPDATE SET theme = excluded.theme, updated_at = ${NOW}
+         RETURNING *`,
+        [userId, theme]
+      );
+      return toCharacter(row);
+    },
+  };
+
+  const routineSettings = {
+    async find(userId) {
+      return toRoutineSettings(get('SELECT * FROM routine_settings WHERE user_id = ?', [userId]));
+    },
+
+    async findForUpdate(userId) {
+      return routineSettings.find(userId);
+    },
+
+    async save(userId, { defaultMorningRoutines, defaultEveningRoutines, settings }) {
+      run(
+        `INSERT INTO routine_settings (user_id, morning_routines, evening_routines, morning_notification_time, evening_notification_time, time_zone, day_start_time, backfill_grace_days)
+         VALUES (@userId, @morningRoutines, @eveningRoutines, @morningTime, @eveningTime, @timeZone, COALESCE(@dayStartTime, '00:00:00'), COALESCE(@backfillGraceDays, 1))
+         ON CONFLICT (user_id) DO UPDATE SET
+         morning_routines = excluded.morning_routines,
+         evening_routines = excluded.evening_routines,
+         morning_notification_time = excluded.morning_notification_time,
+         evening_notification_time = excluded.evening_notification_time,
+         time_zone = COALESCE(excluded.time_zone, routine_settings.time_zone),
+         day_start_time = COALESCE(@dayStartTime, routine_settings.day_start_time),
+         backfill_grace_days = COALESCE(@backfillGraceDays, routine_settings.backfill_grace_days)`,
+        {
+          userId,
+          morningRoutines: JSON.stringify(defaultMorningRoutines),
+          eveningRoutines: JSON.stringify(defaultEveningRoutines),
+          morningTime: toTimeColumn(settings.morningNotificationTime),
+          eveningTime: toTimeColumn(settings.eveningNotificationTime),
+          timeZone: settings.timeZone || null,
+          dayStartTime: toTimeColumn(settings.dayStartTime),
+          backfillGraceDays: settings.backfillGraceDays ?? null,
+        }
+      );
+    },
+  };
+
+  const dayLogs = {
+    async find(userId, date) {
+      const row = get('SELECT * FROM day_logs WHERE user_id = ? AND date = ?', [userId, date]);
+      return row ? toDayLog(row) : null;
+    },
+
+    async findForUpdate(userId, date) {
+      return dayLogs.find(userId, date);
+    },
+
+    async findAll(userId) {
+      return all('SELECT * FROM day_logs WHERE user_id = ? ORDER BY date', [userId]).map(toDayLog);
+    },
+
+    async findAllForUpdate(userId) {
+      return dayLogs.findAll(userId);
+    },
+
+    async findRecent(userId, limit) {
+      return all('SELECT * FROM day_logs WHERE user_id = ? ORDER BY date DESC LIMIT ?', [userId, limit]).map(toDayLog);
+    },
+
+    async findInRange(userId, { from, to, cursor = null, limit }) {
+      return all(
+        `SELECT * FROM day_logs
+         WHERE user_id = @userId AND date >= @from AND date <= @to AND (@cursor IS NULL OR date > @cursor)
+         ORDER BY date
+         LIMIT @limit`,
+        { userId, from, to, cursor, limit }
+      ).map(toDayLog);
+    },
+
+    async findDates(userId) {
+      return all('SELECT date FROM day_logs WHERE user_id = ? ORDER BY date', [userId]).map((row) => row.date);
+    },
+
+    async save(userId, log) {
+      const row = get(
+        `INSERT INTO day_logs (user_id, date, morning_routines, morning_completed, evening_routines, evening_completed, evening_journal, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ${NOW}, ${NOW})
+         ON CONFLICT (user_id, date) DO UPDATE SET
+         morning_routines = excluded.morning_routines,
+         morning_completed = excluded.morning_completed,
+         evening_routines = excluded.evening_routines,
+         evening_completed = excluded.evening_completed,
+         evening_journal = excluded.evening_journal,
+         updated_at = ${NOW}
+         RETURNING *`,
+        [
+          userId,
+          log.date,
+          JSON.stringify(log.morning.routines),
+          flag(log.morning.completed),
+          JSON.stringify(log.evening.routines),
+          flag(log.evening.completed),
+          toEveningJournal(log.evening),
+        ]
+      );
+      return toDayLog(row);
+    },
+
+    async saveMany(userId, logs) {
+      for (const log of logs) {
+        await dayLogs.save(userId, log);
+      }
+    },
+
+    async patch(userId, date, { morning, evening }) {
+      const row = get(
+        `INSERT INTO day_logs (user_id, date, morning_routines, morning_completed, evening_routines, evening_completed, evening_journal, morning_rewards, evening_rewards, created_at, updated_at)
+         VALUES (@userId, @date, COALESCE(@morningRoutines, '[]'), COALESCE(@morningCompleted, 0), COALESCE(@eveningRoutines, '[]'), COALESCE(@eveningCompleted, 0), @eveningJournal, @morningRewards, @eveningRewards, ${NOW}, ${NOW})
+         ON CONFLICT (user_id, date) DO UPDATE SET
+         morning_routines = COALESCE(@morningRoutines, day_logs.morning_routines),
+         morning_completed = COALESCE(@morningCompleted, day_logs.morning_completed),
+         evening_routines = COALESCE(@eveningRoutines, day_logs.evening_routines),
+         evening_completed = COALESCE(@eveningCompleted, day_logs.evening_completed),
+         evening_journal = CASE WHEN @hasEvening THEN @eveningJournal ELSE day_logs.evening_journal END,
+         morning_rewards = COALESCE(@morningRewards, day_logs.morning_rewards),
+         evening_rewards = COALESCE(@eveningRewards, day_logs.evening_rewards),
+         updated_at = ${NOW}
+         RETURNING *`,
+        {
+          userId,
+          date,
+          morningRoutines: morning ? JSON.stringify(morning.routines) : null,
+          morningCompleted: morning ? flag(morning.completed) : null,
+          eveningRoutines: evening ? JSON.stringify(evening.routines) : null,
+          eveningCompleted: evening ? flag(evening.completed) : null,
+          eveningJournal: evening ? toEveningJournal(evening) : null,
+          hasEvening: flag(evening),
+          morningRewards: morning?.rewards ? JSON.stringify(morning.rewards) : null,
+          eveningRewards: evening?.rewards ? JSON.stringify(evening.rewards) : null,
+        }
+      );
+      return toDayLog(row);
+    },
+
+    async deleteExcept(userId, dates) {
+      run('DELETE FROM day_logs WHERE user_id = ? AND date NOT IN (SELECT value FROM json_each(?))', [
+        userId,
+        JSON.stringify(dates),
+      ]);
+    },
+  };
+
+  const experienceLedger = {
+    async insert(userId, { date, section, routineId }, awards) {
+      for (const award of awards) {
+        run(
+          `INSERT INTO experience_ledger (user_id, date, section, routine_id, reason, amount, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ${NOW})`,
+          [userId, date, section, routineId, award.reason, award.amount]
+        );
+      }
+    },
+  };
+
+  const streakFreezes = {
+    async findForUpdate(userId) {
+      return all('SELECT id, earned_on, used_on FROM streak_freezes WHERE user_id = ? ORDER BY earned_on', [
+        userId,
+      ]).map((row) => ({ id: row.id, earnedOn: row.earned_on, usedOn: row.used_on }));
+    },
+
+    async insert(userId, earnedOn) {
+      run(
+        `INSERT INTO streak_freezes (user_id, earned_on, created_at) VALUES (?, ?, ${NOW})
+         ON CONFLICT (user_id, earned_on) DO NOTHING`,
+        [userId, earnedOn]
+      );
+    },
+
+    async use(id, usedOn) {
+      run('UPDATE streak_freezes SET used_on = ? WHERE id = ?', [usedOn, id]);
+    },
+  };
+
+  const pushSubscriptions = {
+    async findSubscribers() {
+      const rows = all(
+        `SELECT ps.user_id AS subscriber_id, rs.*
+         FROM (SELECT DISTINCT user_id FROM push_subscriptions) ps
+         LEFT JOIN routine_settings rs ON rs.user_id = ps.user_id
+         ORDER BY ps.user_id`
+      );
+      return rows.map((row) => ({
+        userId: row.subscriber_id,
+        routineSettings: toRoutineSettings(row.user_id ? row : null),
+      }));
+    },
+
+    async findByUser(userId) {
+      return all('SELECT endpoint, p256dh, auth FROM push_subscriptions WHERE user_id = ?', [userId]).map(
+        toPushSubscription
+      );
+    },
+
+    async save(userId, subscription) {
+      run(
+        `INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, created_at)
+         VALUES (?, ?, ?, ?, ${NOW})
+         ON CONFLICT (endpoint) DO UPDATE SET
+         user_id = excluded.user_id,
+         p256dh = excluded.p256dh,
+         auth = excluded.auth`,
+        [userId, subscription.endpoint, subscription.keys.p256dh, subscription.keys.auth]
+      );
+    },
+
+    async delete(endpoint, userId = null) {
+      run('DELETE FROM push_subscriptions WHERE endpoint = @endpoint AND (@userId IS NULL OR user_id = @userId)', {
+        endpoint,
+        userId,
+      });
+    },
+  };
+
+  const reminderDeliveries = {
+    async claim(userId, kind, date) {
+      const result = run(
+        `INSERT INTO reminder_deliveries (user_id, kind, date, sent_at)
+         VALUES (?, ?, ?, ${NOW})
+         ON CONFLICT DO NOTHING`,
+        [userId, kind, date]
+      );
+      return result.changes > 0;
+    },
+  };
+
+  const magicLinks = {
+    async markUsed(nonce) {
+      run(`DELETE FROM used_magic_links WHERE used_at < strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-1 day')`);
+      const result = run(
+        `INSERT INTO used_magic_links (nonce, used_at)
+         VALUES (?, ${NOW})
+         ON CONFLICT DO NOTHING`,
+        [nonce]
+      );
+      return result.changes > 0;
+    },
+  };
+
+  return {
+    users,
+    characters,
+    routineSettings,
+    dayLogs,
+    experienceLedger,
+    streakFreezes,
+    pushSubscriptions,
+    reminderDeliveries,
+    magicLinks,
+  };
+}
+
+// filename を省略した場合は SQLITE_PATH（未設定なら .data/totono-life.sqlite）
+export function createSqliteStorage(filename = process.env.SQLITE_PATH || '.data/totono-life.sqlite') {
+  const db = openDatabase(filename);
+  const repositories = createRepositories(db);
+  const enqueue = createSerialQueue();
+
+  return {
+    ...serialiseRepositories(repositories, enqueue),
+    transaction: (callback) =>
+      enqueue(async () => {
+        db.exec('BEGIN IMMEDIATE');
+        try {
+          const result = await callback(repositories);
+          db.exec('COMMIT');
+          return result;
+        } catch (error) {
+          db.exec('ROLLBACK');
+          throw error;
+        }
+      }),
+  };
+}
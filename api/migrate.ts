@@ -0,0 +1,40 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { getMigrationStatus, runMigrations } from './lib/migrate.js';
+import { sendServerError } from './utils/errors.js';
+
+// デプロイ後に一度呼び出し、未適用のマイグレーションを適用する。
+// GET で適用状況の確認、POST で適用。MIGRATION_SECRET を Bearer トークンとして送る
+function isAuthorized(req: VercelRequest): boolean {
+  const secret = process.env.MIGRATION_SECRET;
+  if (!secret) {
+    return process.env.NODE_ENV !== 'production';
+  }
+  return req.headers.authorization === `Bearer ${secret}`;
+}
+
+const toNames = (migrations: { file: string }[]) => migrations.map((migration) => migration.file);
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  if (!isAuthorized(req)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const { applied, pending } = await getMigrationStatus();
+      res.status(200).json({ applied: toNames(applied), pending: toNames(pending) });
+      return;
+    }
+
+    const ran = await runMigrations();
+    res.status(200).json({ applied: toNames(ran) });
+  } catch (error: any) {
+    sendServerError(res, 'migrate', error);
+  }
+}
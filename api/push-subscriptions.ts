@@ -0,0 +1,69 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { getVapidPublicKey } from './lib/push.js';
+import { getStorage } from './lib/storage/index.js';
+import { handleCors, setCorsHeaders } from './utils/cors.js';
+import { sendServerError } from './utils/errors.js';
+import { RATE_LIMITS, rateLimitByUser } from './utils/rateLimit.js';
+import { requireUserId } from './utils/user.js';
+
+function isValidSubscription(subscription: any): boolean {
+  return (
+    Boolean(subscription) &&
+    typeof subscription.endpoint === 'string' &&
+    // http はローカルのスタブ（scripts/push-stub.mjs）用に開発環境でのみ許可する
+    (subscription.endpoint.startsWith('https://') ||
+      (process.env.NODE_ENV !== 'production' && subscription.endpoint.startsWith('http://'))) &&
+    typeof subscription.keys?.p256dh === 'string' &&
+    typeof subscription.keys?.auth === 'string'
+  );
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(req, res);
+
+  // 購読に必要な公開鍵はログイン前でも返す
+  if (req.method === 'GET') {
+    const publicKey = getVapidPublicKey();
+    if (!publicKey) {
+      res.status(503).json({ error: 'プッシュ通知は設定されていません' });
+      return;
+    }
+    res.status(200).json({ publicKey });
+    return;
+  }
+
+  if (req.method !== 'POST' && req.method !== 'DELETE') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const userId = requireUserId(req, res);
+  if (!userId) return;
+  if (!(await rateLimitByUser(res, userId, RATE_LIMITS.pushSubscriptions))) return;
+  const storage = getStorage();
+
+  try {
+    if (req.method === 'POST') {
+      const { subscription } = req.body || {};
+      if (!isValidSubscription(subscription)) {
+        res.status(400).json({ error: 'subscription が不正です' });
+        return;
+      }
+      await storage.pushSubscriptions.save(userId, subscription);
+      res.status(200).json({ message: 'Subscribed' });
+      return;
+    }
+
+    const { endpoint } = req.body || {};
+    if (typeof endpoint !== 'string' || !endpoint) {
+      res.status(400).json({ error: 'endpoint が必要です' });
+      return;
+    }
+    // 他のユーザーの購読は消せないように user_id も条件に含める
+    await storage.pushSubscriptions.delete(endpoint, userId);
+    res.status(200).json({ message: 'Unsubscribed' });
+  } catch (error: any) {
+    sendServerError(res, 'push-subscriptions', error);
+  }
+}
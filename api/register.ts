@@ -1,8 +1,15 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
-import { getDbPool } from './lib/db.js';
+import type { AvatarConfig } from '../src/types';
+import { DEFAULT_TIME_ZONE, getToday } from '../shared/date.js';
+import { registerSchema } from '../shared/requestSchemas.js';
+import { validate } from '../shared/schema.js';
+import { getStorage } from './lib/storage/index.js';
 import { handleCors, setCorsHeaders } from './utils/cors.js';
+import { sendServerError, sendValidationError } from './utils/errors.js';
+import { RATE_LIMITS, rateLimitByIp, rateLimitByUser } from './utils/rateLimit.js';
+import { requireUserId } from './utils/user.js';
 
-const DEFAULT_AVATAR = {
+const DEFAULT_AVATAR: AvatarConfig = {
   skinTone: '#fcd7b8',
   hairColor: '#5d4632',
   clothingColor: '#7fb4ff',
@@ -18,60 +25,40 @@ const DEFAULT_CHARACTER = {
   experienceToNext: 100,
   theme: 'animal',
   evolutionStage: 0,
-  lastActiveDate: new Date().toISOString().split('T')[0],
 };
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (handleCors(req, res)) return;
-  setCorsHeaders(res);
+  setCorsHeaders(req, res);
 
   if (req.method !== 'POST') {
     res.status(405).json({ error: 'Method not allowed' });
     return;
   }
 
-  const { userId, displayName, email, avatar } = req.body || {};
+  const userId = requireUserId(req, res);
+  if (!userId) return;
+  if (!(await rateLimitByIp(req, res, RATE_LIMITS.register))) return;
+  if (!(await rateLimitByUser(res, userId, RATE_LIMITS.register))) return;
 
-  if (!userId || !displayName) {
-    res.status(400).json({ error: 'userId と displayName は必須です' });
+  const { value: body, issues } = validate(registerSchema, req.body);
+  if (!body) {
+    sendValidationError(res, issues);
     return;
   }
 
   try {
-    const pool = getDbPool();
-    const trimmedName = String(displayName).trim();
-    const trimmedEmail = email ? String(email).trim() : null;
-    const avatarConfig = avatar || DEFAULT_AVATAR;
+    const storage = getStorage();
+    const trimmedName = body.displayName;
+    const trimmedEmail = body.email || null;
+    const avatarConfig = body.avatar || DEFAULT_AVATAR;
+    const lastActiveDate = getToday(body.timeZone || DEFAULT_TIME_ZONE);
 
-    await pool.query(
-      `INSERT INTO users (id, display_name, email, avatar_config)
-       VALUES ($1, $2, $3, $4)
-       ON CONFLICT (id) DO UPDATE SET
-         display_name = EXCLUDED.display_name,
-         email = EXCLUDED.email,
-         avatar_config = EXCLUDED.avatar_config,
-         updated_at = CURRENT_TIMESTAMP`,
-      [userId, trimmedName, trimmedEmail, avatarConfig]
-    );
-
-    await pool.query(
-      `INSERT INTO characters (user_id, level, experience, experience_to_next, theme, evolution_stage, last_active_date)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
-       ON CONFLICT (user_id) DO NOTHING`,
-      [
-        userId,
-        DEFAULT_CHARACTER.level,
-        DEFAULT_CHARACTER.experience,
-        DEFAULT_CHARACTER.experienceToNext,
-        DEFAULT_CHARACTER.theme,
-        DEFAULT_CHARACTER.evolutionStage,
-        DEFAULT_CHARACTER.lastActiveDate,
-      ]
-    );
+    await storage.users.saveProfile(userId, { displayName: trimmedName, email: trimmedEmail, avatar: avatarConfig });
+    await storage.characters.create(userId, { ...DEFAULT_CHARACTER, lastActiveDate });
 
     res.status(200).json({ message: 'registered' });
   } catch (error: any) {
-    console.error('register API error', error);
-    res.status(500).json({ error: error.message });
+    sendServerError(res, 'register', error);
   }
 }
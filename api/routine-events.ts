@@ -0,0 +1,107 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import type { Character } from '../src/types';
+import { DEFAULT_TIME_ZONE, getToday, isValidDateString } from '../shared/date.js';
+import { addExperience } from '../shared/experience.js';
+import { applyRoutineEvent, canEditDate, getExperienceRate, RoutineEvent, withEventRoutine } from '../shared/routineEvents.js';
+import { createScheduledDayLog, normaliseRoutineTemplates } from '../shared/schedule.js';
+import { toCharacter } from './lib/records.js';
+import { getStorage, Repositories } from './lib/storage/index.js';
+import { handleCors, setCorsHeaders } from './utils/cors.js';
+import { sendServerError } from './utils/errors.js';
+import { RATE_LIMITS, rateLimitByUser } from './utils/rateLimit.js';
+import { requireUserId } from './utils/user.js';
+
+// occurredAt は同じ項目の操作の順番を決めるためだけに使い、過去に遡れるのはこの範囲まで
+const MAX_OCCURRED_AT_SKEW_MS = 5 * 60 * 1000;
+
+// date を省略した場合はサーバーの現在時刻とユーザーの日付設定から呼び出し側で決める（空文字で返す）。
+// occurredAt は直近の数分間に丸める
+function parseEvent(body: any): RoutineEvent | null {
+  if (!body || typeof body !== 'object') return null;
+  const { date, section, routineId, completed, occurredAt } = body;
+  const now = Date.now();
+  const occurredTime = typeof occurredAt === 'string' ? Date.parse(occurredAt) : NaN;
+  if (
+    (date !== undefined && !isValidDateString(date)) ||
+    (section !== 'morning' && section !== 'evening') ||
+    typeof routineId !== 'string' || !routineId ||
+    typeof completed !== 'boolean'
+  ) {
+    return null;
+  }
+  return {
+    date: date ?? '',
+    section,
+    routineId,
+    completed,
+    occurredAt: new Date(
+      Number.isNaN(occurredTime) ? now : Math.min(Math.max(occurredTime, now - MAX_OCCURRED_AT_SKEW_MS), now)
+    ).toISOString(),
+  };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(req, res);
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const userId = requireUserId(req, res);
+  if (!userId) return;
+  if (!(await rateLimitByUser(res, userId, RATE_LIMITS.routineEvents))) return;
+
+  const event = parseEvent(req.body);
+  if (!event) {
+    res.status(400).json({ error: 'section, routineId, completed が必要です' });
+    return;
+  }
+
+  try {
+    const storage = getStorage();
+    const { defaultMorningRoutines, defaultEveningRoutines, settings } = await storage.routineSettings.find(userId);
+    // 修正できる期間と経験値の倍率は、クライアントの時刻ではなくサーバーでの「今日」を基準にする
+    const today = getToday(settings.timeZone || DEFAULT_TIME_ZONE, settings.dayStartTime);
+    if (!event.date) {
+      event.date = today;
+    }
+    if (!canEditDate(event.date, today, settings.backfillGraceDays)) {
+      res.status(400).json({ error: 'この日の記録を修正できる期間を過ぎています' });
+      return;
+    }
+
+    const result = await storage.transaction(async (repositories: Repositories) => {
+      // 記録の無い日に後からチェックした場合も、その日に予定していたルーティンを揃えておく
+      const scheduled = createScheduledDayLog(
+        event.date,
+        normaliseRoutineTemplates(defaultMorningRoutines, 'morning'),
+        normaliseRoutineTemplates(defaultEveningRoutines, 'evening')
+      );
+      // 日次ログにもその日の予定にも無い項目では経験値を付与しない
+      const current = withEventRoutine((await repositories.dayLogs.findForUpdate(userId, event.date)) ?? scheduled, scheduled, event);
+      if (!current) return null;
+
+      const { log, awards } = applyRoutineEvent(current, event, getExperienceRate(event.date, today));
+      const dayLog = await repositories.dayLogs.patch(userId, event.date, { [event.section]: log[event.section] });
+
+      let character = ((await repositories.characters.findForUpdate(userId)) ?? toCharacter(null)) as Character;
+      const experience = awards.reduce((sum, award) => sum + award.amount, 0);
+      if (awards.length > 0) {
+        character = (await repositories.characters.save(userId, addExperience(character, experience, event.date))) as Character;
+        await repositories.experienceLedger.insert(userId, event, awards);
+      }
+
+      return { dayLog, character, awards };
+    });
+
+    if (!result) {
+      res.status(400).json({ error: 'この日の記録にも予定にも無いルーティンです' });
+      return;
+    }
+    res.status(200).json(result);
+  } catch (error: any) {
+    sendServerError(res, 'routine-events', error);
+  }
+}
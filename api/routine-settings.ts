@@ -0,0 +1,40 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { routineSettingsSchema } from '../shared/requestSchemas.js';
+import { normaliseRoutineTemplates } from '../shared/schedule.js';
+import { validate } from '../shared/schema.js';
+import { getStorage } from './lib/storage/index.js';
+import { handleCors, setCorsHeaders } from './utils/cors.js';
+import { sendServerError, sendValidationError } from './utils/errors.js';
+import { RATE_LIMITS, rateLimitByUser } from './utils/rateLimit.js';
+import { requireUserId } from './utils/user.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(req, res);
+
+  if (req.method !== 'PUT') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const userId = requireUserId(req, res);
+  if (!userId) return;
+  if (!(await rateLimitByUser(res, userId, RATE_LIMITS.routineSettings))) return;
+
+  const { value: body, issues } = validate(routineSettingsSchema, req.body);
+  if (!body) {
+    sendValidationError(res, issues);
+    return;
+  }
+
+  try {
+    await getStorage().routineSettings.save(userId, {
+      defaultMorningRoutines: normaliseRoutineTemplates(body.defaultMorningRoutines, 'morning'),
+      defaultEveningRoutines: normaliseRoutineTemplates(body.defaultEveningRoutines, 'evening'),
+      settings: body.settings,
+    });
+    res.status(200).json({ message: 'Routine settings saved' });
+  } catch (error: any) {
+    sendServerError(res, 'routine-settings', error);
+  }
+}
@@ -0,0 +1,45 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import type { DayLog } from '../src/types';
+import { addDays, DEFAULT_TIME_ZONE, getToday } from '../shared/date.js';
+import { computeStats, DEFAULT_STATS_PERIOD, isStatsPeriod, STATS_PERIODS } from '../shared/stats.js';
+import { getStorage } from './lib/storage/index.js';
+import { handleCors, setCorsHeaders } from './utils/cors.js';
+import { sendServerError } from './utils/errors.js';
+import { RATE_LIMITS, rateLimitByUser } from './utils/rateLimit.js';
+import { requireUserId } from './utils/user.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(req, res);
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const userId = requireUserId(req, res);
+  if (!userId) return;
+  if (!(await rateLimitByUser(res, userId, RATE_LIMITS.stats))) return;
+
+  const period = req.query.period === undefined ? DEFAULT_STATS_PERIOD : Number(req.query.period);
+  if (!isStatsPeriod(period)) {
+    res.status(400).json({ error: `period は ${STATS_PERIODS.join(', ')} のいずれかで指定してください` });
+    return;
+  }
+
+  try {
+    // クライアントが読み込んでいない期間も含めて、サーバーの全履歴から集計する
+    const storage = getStorage();
+    const { settings } = await storage.routineSettings.find(userId);
+    const today = getToday(settings.timeZone || DEFAULT_TIME_ZONE, settings.dayStartTime);
+    const logs = (await storage.dayLogs.findInRange(userId, {
+      from: addDays(today, -(period - 1)),
+      to: today,
+      limit: period,
+    })) as DayLog[];
+
+    res.status(200).json(computeStats(logs, today, period));
+  } catch (error: any) {
+    sendServerError(res, 'stats', error);
+  }
+}
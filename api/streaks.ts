@@ -0,0 +1,62 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { DEFAULT_TIME_ZONE, getToday } from '../shared/date.js';
+import {
+  computeStreakSummary,
+  findFreezableDates,
+  findFreezeMilestones,
+  MAX_STREAK_FREEZES,
+} from '../shared/streaks.js';
+import { getStorage, Repositories, StreakFreeze } from './lib/storage/index.js';
+import { handleCors, setCorsHeaders } from './utils/cors.js';
+import { sendServerError } from './utils/errors.js';
+import { RATE_LIMITS, rateLimitByUser } from './utils/rateLimit.js';
+import { requireUserId } from './utils/user.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (handleCors(req, res)) return;
+  setCorsHeaders(req, res);
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const userId = requireUserId(req, res);
+  if (!userId) return;
+  if (!(await rateLimitByUser(res, userId, RATE_LIMITS.streaks))) return;
+
+  try {
+    // 30日分に限らず全期間の日次ログから計算し、フリーズの使用と獲得もここで確定させる
+    const summary = await getStorage().transaction(async (repositories: Repositories) => {
+      const { settings } = await repositories.routineSettings.find(userId);
+      const today = getToday(settings.timeZone || DEFAULT_TIME_ZONE, settings.dayStartTime);
+      const logs = await repositories.dayLogs.findAll(userId);
+      const freezes = await repositories.streakFreezes.findForUpdate(userId);
+
+      const frozenDates = freezes.flatMap((freeze) => (freeze.usedOn ? [freeze.usedOn] : []));
+      const available = freezes.filter((freeze) => !freeze.usedOn);
+
+      // 途切れた日があれば手持ちのフリーズで守る（古く獲得したものから使う）
+      for (const date of findFreezableDates(logs, today, frozenDates, available.length)) {
+        const freeze = available.shift() as StreakFreeze;
+        await repositories.streakFreezes.use(freeze.id, date);
+        frozenDates.push(date);
+      }
+
+      // 連続記録の最新の節目でフリーズを獲得する（同じ節目では一度だけ）
+      const milestones = findFreezeMilestones(logs, today, frozenDates);
+      const latest = milestones[milestones.length - 1];
+      let freezesAvailable = available.length;
+      if (latest && freezesAvailable < MAX_STREAK_FREEZES && !freezes.some((freeze) => freeze.earnedOn === latest)) {
+        await repositories.streakFreezes.insert(userId, latest);
+        freezesAvailable++;
+      }
+
+      return computeStreakSummary(logs, today, frozenDates.sort(), freezesAvailable);
+    });
+
+    res.status(200).json(summary);
+  } catch (error: any) {
+    sendServerError(res, 'streaks', error);
+  }
+}
@@ -1,13 +1,28 @@
-export function setCorsHeaders(res) {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+// 別オリジンからの呼び出しは APP_URL と ALLOWED_ORIGINS（カンマ区切り）のオリジンだけ許可する。
+// 同じオリジンのフロントエンドからの呼び出しには CORS のヘッダーは不要
+function getAllowedOrigins() {
+  return [process.env.APP_URL, ...(process.env.ALLOWED_ORIGINS || '').split(',')]
+    .map((origin) => (origin || '').trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+// 許可されたオリジンならヘッダーを付けて true を返す
+export function setCorsHeaders(req, res) {
+  res.setHeader('Vary', 'Origin');
+  const origin = req.headers?.origin;
+  if (!origin || !getAllowedOrigins().includes(origin)) return false;
+
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  return true;
 }
 
 export function handleCors(req, res) {
-  setCorsHeaders(res);
+  const allowed = setCorsHeaders(req, res);
   if (req.method === 'OPTIONS') {
-    res.status(200).end();
+    res.status(allowed ? 200 : 403).end();
     return true;
   }
   return false;
@@ -0,0 +1,10 @@
+// 想定外のエラーはログにだけ詳細を残し、クライアントには DB のエラー文などを返さない
+export function sendServerError(res, label, error) {
+  console.error(`${label} API error`, error);
+  res.status(500).json({ error: 'サーバーでエラーが発生しました。時間をおいて再試行してください' });
+}
+
+// スキーマの検証結果（issues: { path, message }[]）をそのまま返す
+export function sendValidationError(res, issues) {
+  res.status(400).json({ error: '入力内容に誤りがあります', issues });
+}
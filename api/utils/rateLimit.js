@@ -0,0 +1,102 @@
+// IP・ユーザーごとのリクエスト数の制限（固定ウィンドウ）。
+// 保存先は increment(key, windowMs) => { count, resetAt } を持つオブジェクトで、setRateLimitStore で差し替えられる。
+// 既定はプロセス内のメモリのため、サーバーレス環境ではインスタンスごとの制限になる
+export const RATE_LIMITS = {
+  // ゲストアカウントの作成（IP ごと）
+  guest: { name: 'guest', limit: 20, windowSeconds: 60 * 60 },
+  // 旧バージョンのIDの引き継ぎ（IP ごと。IDを総当たりで試して他人のアカウントを奪えないよう少なめにする）
+  legacyClaim: { name: 'legacy-claim', limit: 5, windowSeconds: 60 * 60 },
+  // ログインリンクのメール送信（IP ごと）
+  magicLink: { name: 'magic-link', limit: 5, windowSeconds: 15 * 60 },
+  // プロフィール登録（IP・ユーザーごと）
+  register: { name: 'register', limit: 10, windowSeconds: 60 * 60 },
+  // チャット（ログイン不要のため IP ごと）
+  chat: { name: 'chat', limit: 30, windowSeconds: 60 },
+  // ログインリンクの確認（IP ごと）
+  verifyLink: { name: 'verify-link', limit: 10, windowSeconds: 15 * 60 },
+  // データの取得（ユーザーごと）
+  data: { name: 'data', limit: 60, windowSeconds: 60 },
+  // 履歴の取り込み（ユーザーごと）
+  import: { name: 'import', limit: 10, windowSeconds: 60 * 60 },
+  // プロフィール・キャラクターの見た目・ルーティン設定の変更（ユーザーごと）
+  profile: { name: 'profile', limit: 30, windowSeconds: 60 },
+  character: { name: 'character', limit: 30, windowSeconds: 60 },
+  routineSettings: { name: 'routine-settings', limit: 30, windowSeconds: 60 },
+  // 過去の日次ログの読み込み（ユーザーごと。カレンダーで月を移動するたびに呼ばれる）
+  dayLogHistory: { name: 'day-log-history', limit: 60, windowSeconds: 60 },
+  // プッシュ通知の購読の登録・解除（ユーザーごと）
+  pushSubscriptions: { name: 'push-subscriptions', limit: 30, windowSeconds: 60 * 60 },
+  // ルーティンのチェック（ユーザーごと。オフライン中の操作がまとめて届くこともあるので多めにする）
+  routineEvents: { name: 'routine-events', limit: 120, windowSeconds: 60 },
+  // 日次ログの更新（ユーザーごと）
+  dayLogs: { name: 'day-logs', limit: 120, windowSeconds: 60 },
+  // 他のアプリからの日次ログの取り込み（ユーザーごと。1回に BULK_DAY_LOG_LIMIT 日分）
+  dayLogsBulk: { name: 'day-logs-bulk', limit: 30, windowSeconds: 60 * 60 },
+  // 連続記録・ふりかえりの集計（ユーザーごと）
+  streaks: { name: 'streaks', limit: 60, windowSeconds: 60 },
+  stats: { name: 'stats', limit: 60, windowSeconds: 60 },
+  // 書き出し（ユーザーごと。全期間を読み込むため少なめにする）
+  export: { name: 'export', limit: 20, windowSeconds: 60 * 60 },
+};
+
+// 期限切れのキーを掃除する目安の件数
+const MAX_MEMORY_KEYS = 10000;
+
+export function createMemoryRateLimitStore() {
+  const windows = new Map();
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      if (windows.size >= MAX_MEMORY_KEYS) {
+        for (const [storedKey, window] of windows) {
+          if (window.resetAt <= now) windows.delete(storedKey);
+        }
+      }
+
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+      window.count += 1;
+      return { count: window.count, resetAt: window.resetAt };
+    },
+  };
+}
+
+let store = null;
+
+export function getRateLimitStore() {
+  store ??= createMemoryRateLimitStore();
+  return store;
+}
+
+export function setRateLimitStore(next) {
+  store = next;
+}
+
+// Vercel では x-forwarded-for の先頭がクライアントの IP になる
+export function getClientIp(req) {
+  const forwarded = req.headers?.['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return first || req.headers?.['x-real-ip'] || req.socket?.remoteAddress || 'unknown';
+}
+
+// 上限を超えていれば 429 を返して false を返す
+async function consume(res, key, { name, limit, windowSeconds }) {
+  const { count, resetAt } = await getRateLimitStore().increment(`${name}:${key}`, windowSeconds * 1000);
+  if (count <= limit) return true;
+
+  res.setHeader('Retry-After', String(Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))));
+  res.status(429).json({ error: 'リクエストが多すぎます。しばらくしてから再試行してください' });
+  return false;
+}
+
+export function rateLimitByIp(req, res, policy) {
+  return consume(res, `ip:${getClientIp(req)}`, policy);
+}
+
+export function rateLimitByUser(res, userId, policy) {
+  return consume(res, `user:${userId}`, policy);
+}
@@ -0,0 +1,137 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const SESSION_COOKIE_NAME = 'totono_session';
+
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 180;
+const MAGIC_LINK_MAX_AGE_SECONDS = 60 * 15;
+const DEV_SECRET = 'totono-life-dev-secret';
+// APP_URL が未設定のときに使う開発用のURL（vite の既定のポート）
+const DEV_APP_URL = 'http://localhost:5173';
+
+function getSecret() {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+  return DEV_SECRET;
+}
+
+// ログインリンクの宛先。Host ヘッダーは偽装できるため使わない
+export function getAppUrl() {
+  const appUrl = process.env.APP_URL;
+  if (appUrl) return appUrl.replace(/\/+$/, '');
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('APP_URL is not configured');
+  }
+  return DEV_APP_URL;
+}
+
+function sign(value) {
+  return createHmac('sha256', getSecret()).update(value).digest('base64url');
+}
+
+// payload を署名付きトークンに変換する（"<base64url(JSON)>.<HMAC>"）
+function encodeToken(payload) {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${body}.${sign(body)}`;
+}
+
+function decodeToken(token) {
+  if (typeof token !== 'string') return null;
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (!payload || typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch (error) {
+    return null;
+  }
+}
+
+function nowSeconds() {
+  return Math.floor(Date.now() / 1000);
+}
+
+export function generateUserId() {
+  return `user-${Date.now()}-${randomBytes(6).toString('hex')}`;
+}
+
+// nonce は一度使ったら無効にするための値、uid はリンクを要求したセッションのユーザー（未ログインなら null）
+export function createMagicLinkToken(email, sessionUserId) {
+  return encodeToken({
+    purpose: 'magic-link',
+    email,
+    nonce: randomBytes(16).toString('hex'),
+    uid: sessionUserId || null,
+    exp: nowSeconds() + MAGIC_LINK_MAX_AGE_SECONDS,
+  });
+}
+
+export function verifyMagicLinkToken(token) {
+  const payload = decodeToken(token);
+  if (
+    !payload ||
+    payload.purpose !== 'magic-link' ||
+    typeof payload.email !== 'string' ||
+    typeof payload.nonce !== 'string'
+  ) {
+    return null;
+  }
+  return { email: payload.email, nonce: payload.nonce, uid: typeof payload.uid === 'string' ? payload.uid : null };
+}
+
+function readCookie(req, name) {
+  if (req.cookies && typeof req.cookies[name] === 'string') {
+    return req.cookies[name];
+  }
+  const header = req.headers && req.headers.cookie;
+  if (!header) return null;
+  const entry = header.split(';').map((part) => part.trim()).find((part) => part.startsWith(`${name}=`));
+  return entry ? decodeURIComponent(entry.slice(name.length + 1)) : null;
+}
+
+export function getSessionUserId(req) {
+  const payload = decodeToken(readCookie(req, SESSION_COOKIE_NAME));
+  if (!payload || payload.purpose !== 'session' || typeof payload.uid !== 'string') {
+    return null;
+  }
+  return payload.uid;
+}
+
+function serializeCookie(value, maxAge) {
+  const parts = [
+    `${SESSION_COOKIE_NAME}=${value}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${maxAge}`,
+  ];
+  if (process.env.NODE_ENV === 'production') {
+    parts.push('Secure');
+  }
+  return parts.join('; ');
+}
+
+export function setSessionCookie(res, userId) {
+  const token = encodeToken({
+    purpose: 'session',
+    uid: userId,
+    exp: nowSeconds() + SESSION_MAX_AGE_SECONDS,
+  });
+  res.setHeader('Set-Cookie', serializeCookie(token, SESSION_MAX_AGE_SECONDS));
+}
+
+export function clearSessionCookie(res) {
+  res.setHeader('Set-Cookie', serializeCookie('', 0));
+}
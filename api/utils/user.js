@@ -1,4 +1,16 @@
+import { getSessionUserId } from './session.js';
+
+// 署名付きセッションCookieからユーザーIDを取得する（未ログインなら null）
 export function getUserId(req) {
-  const userId = (req.query && req.query.userId) || (req.headers && req.headers['x-user-id']) || 'default-user';
+  return getSessionUserId(req);
+}
+
+// セッションが無い場合は 401 を返して null を返す
+export function requireUserId(req, res) {
+  const userId = getUserId(req);
+  if (!userId) {
+    res.status(401).json({ error: 'ログインが必要です' });
+    return null;
+  }
   return userId;
 }
@@ -0,0 +1,193 @@
+-- 001: マイグレーション導入時点のスキーマ。
+-- これまでリクエストごとに initDatabase() で作っていたものと同じ内容で、
+-- 既にテーブルのあるデータベースにもそのまま適用できるよう、すべて IF NOT EXISTS 等で書く
+
+-- ユーザーテーブル
+CREATE TABLE IF NOT EXISTS users (
+  id VARCHAR(255) PRIMARY KEY,
+  display_name VARCHAR(255),
+  email VARCHAR(255),
+  avatar_config JSONB DEFAULT '{}'::jsonb,
+  email_verified BOOLEAN DEFAULT FALSE,
+  claimed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS display_name VARCHAR(255);
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS email VARCHAR(255);
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS avatar_config JSONB DEFAULT '{}'::jsonb;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS email_verified BOOLEAN DEFAULT FALSE;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP;
+
+-- 更新日時を自動更新する関数
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = CURRENT_TIMESTAMP;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- ユーザーテーブルの更新日時トリガー
+DROP TRIGGER IF EXISTS update_users_updated_at ON users;
+CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- テーマ・気分のENUM型
+DO $$ BEGIN
+  CREATE TYPE theme_type AS ENUM ('plant', 'animal', 'robot');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE mood_type AS ENUM ('happy', 'neutral', 'sad');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- キャラクターテーブル
+CREATE TABLE IF NOT EXISTS characters (
+  user_id VARCHAR(255) PRIMARY KEY,
+  level INT DEFAULT 1,
+  experience INT DEFAULT 0,
+  experience_to_next INT DEFAULT 100,
+  theme theme_type DEFAULT 'plant',
+  evolution_stage INT DEFAULT 0,
+  last_active_date DATE,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+ALTER TABLE characters
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+-- キャラクターテーブルの更新日時トリガー
+DROP TRIGGER IF EXISTS update_characters_updated_at ON characters;
+CREATE TRIGGER update_characters_updated_at BEFORE UPDATE ON characters
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ルーティン設定テーブル
+CREATE TABLE IF NOT EXISTS routine_settings (
+  user_id VARCHAR(255) PRIMARY KEY,
+  morning_routines JSONB,
+  evening_routines JSONB,
+  morning_notification_time TIME DEFAULT '08:00:00',
+  evening_notification_time TIME DEFAULT '22:00:00',
+  time_zone VARCHAR(64),
+  day_start_time TIME DEFAULT '00:00:00',
+  backfill_grace_days INTEGER DEFAULT 1,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+ALTER TABLE routine_settings
+  ADD COLUMN IF NOT EXISTS time_zone VARCHAR(64);
+
+ALTER TABLE routine_settings
+  ADD COLUMN IF NOT EXISTS day_start_time TIME DEFAULT '00:00:00';
+
+ALTER TABLE routine_settings
+  ADD COLUMN IF NOT EXISTS backfill_grace_days INTEGER DEFAULT 1;
+
+-- 日次ログテーブル
+CREATE TABLE IF NOT EXISTS day_logs (
+  id SERIAL PRIMARY KEY,
+  user_id VARCHAR(255),
+  date DATE NOT NULL,
+  morning_routines JSONB,
+  morning_completed BOOLEAN DEFAULT FALSE,
+  evening_routines JSONB,
+  evening_completed BOOLEAN DEFAULT FALSE,
+  mood mood_type, -- 旧3段階の気分（evening_journal に移行済み）
+  morning_rewards JSONB,
+  evening_rewards JSONB,
+  evening_journal JSONB, -- { mood: 1〜5, tags, journal }
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE (user_id, date)
+);
+
+ALTER TABLE day_logs
+  ADD COLUMN IF NOT EXISTS morning_rewards JSONB;
+
+ALTER TABLE day_logs
+  ADD COLUMN IF NOT EXISTS evening_rewards JSONB;
+
+-- 気分・タグ・ふりかえり。旧3段階の mood は 良い = 4, 普通 = 3, 良くない = 2 として移す
+ALTER TABLE day_logs
+  ADD COLUMN IF NOT EXISTS evening_journal JSONB;
+
+UPDATE day_logs
+SET evening_journal = jsonb_build_object(
+  'mood', CASE mood WHEN 'happy' THEN 4 WHEN 'neutral' THEN 3 WHEN 'sad' THEN 2 END
+)
+WHERE mood IS NOT NULL AND evening_journal IS NULL;
+
+-- 日次ログテーブルの更新日時トリガー
+DROP TRIGGER IF EXISTS update_day_logs_updated_at ON day_logs;
+CREATE TRIGGER update_day_logs_updated_at BEFORE UPDATE ON day_logs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 経験値の獲得履歴（どのルーティンで何ポイント得たかの監査用）
+CREATE TABLE IF NOT EXISTS experience_ledger (
+  id SERIAL PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL,
+  date DATE NOT NULL,
+  section VARCHAR(16) NOT NULL,
+  routine_id VARCHAR(255),
+  reason VARCHAR(32) NOT NULL,
+  amount INT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- 連続記録のフリーズ（獲得した日と、守るために使った日）
+CREATE TABLE IF NOT EXISTS streak_freezes (
+  id SERIAL PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL,
+  earned_on DATE NOT NULL,
+  used_on DATE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, earned_on),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- Web Push の購読情報（端末ごと）
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id SERIAL PRIMARY KEY,
+  user_id VARCHAR(255) NOT NULL,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- リマインダーの送信済み記録（同じ日に同じ通知を二重に送らないため）
+CREATE TABLE IF NOT EXISTS reminder_deliveries (
+  user_id VARCHAR(255) NOT NULL,
+  kind VARCHAR(16) NOT NULL,
+  date DATE NOT NULL,
+  sent_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, kind, date),
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- インデックス追加（パフォーマンス向上）
+CREATE INDEX IF NOT EXISTS idx_day_logs_user_date ON day_logs(user_id, date);
+CREATE INDEX IF NOT EXISTS idx_characters_last_active ON characters(last_active_date);
+CREATE INDEX IF NOT EXISTS idx_day_logs_user_id ON day_logs(user_id);
+CREATE INDEX IF NOT EXISTS idx_day_logs_date ON day_logs(date);
+CREATE INDEX IF NOT EXISTS idx_experience_ledger_user_date ON experience_ledger(user_id, date);
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id);
@@ -0,0 +1,6 @@
+-- 002: 使用済みのログインリンク。
+-- リンクのトークンに含まれる nonce を記録し、同じリンクで二度ログインできないようにする
+CREATE TABLE IF NOT EXISTS used_magic_links (
+  nonce VARCHAR(64) PRIMARY KEY,
+  used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
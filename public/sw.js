@@ -1,4 +1,5 @@
-const CACHE_NAME = 'totono-life-cache-v1';
+// v2: 以前のバージョンでキャッシュした /api/ のレスポンスを破棄する
+const CACHE_NAME = 'totono-life-cache-v2';
 const PRECACHE_URLS = [
   '/',
   '/manifest.webmanifest'
@@ -30,6 +31,11 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  // API のレスポンスはセッション（ログイン中のアカウント）ごとに違うため、キャッシュせずにネットワークへ送る
+  if (new URL(event.request.url).pathname.startsWith('/api/')) {
+    return;
+  }
+
   event.respondWith(
     caches.match(event.request).then((cached) => {
       const networkFetch = fetch(event.request)
@@ -49,3 +55,34 @@ self.addEventListener('fetch', (event) => {
   );
 });
 
+
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {};
+  const title = data.title || 'Totono Life';
+
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: data.body || '',
+      icon: '/icons/icon-192.svg',
+      badge: '/icons/icon-192.svg',
+      tag: data.tag,
+      data: { url: data.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+      // 開いているタブがあればそれを使い、なければ新しく開く
+      const client = windowClients.find((windowClient) => 'focus' in windowClient);
+      if (client) {
+        return client.focus().then((focused) => (focused && 'navigate' in focused ? focused.navigate(url) : focused));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
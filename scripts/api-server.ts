@@ -0,0 +1,183 @@
+// api/ 以下の各ハンドラーを Vercel と同じ /api/* のパスで動かすローカル用のサーバー。
+// req.query・req.cookies・req.body と res.status()・res.json()・res.send() は Vercel の Node.js ランタイムに合わせる。
+//
+//   npm run dev:api                          # http://localhost:3000/api で待ち受け
+//   STORAGE_DRIVER=sqlite npm run dev:api    # Neon を使わずに SQLite に保存する
+//   API_PORT=4000 npm run dev:api
+import { readdirSync } from 'node:fs';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+type Handler = (req: any, res: any) => unknown;
+
+interface Route {
+  pattern: RegExp;
+  params: string[];
+  file: string;
+  handler?: Handler;
+}
+
+const API_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'api');
+// ハンドラーではないモジュールのディレクトリ
+const IGNORED_DIRS = new Set(['lib', 'utils']);
+
+function findHandlerFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return IGNORED_DIRS.has(entry.name) ? [] : findHandlerFiles(file);
+    return entry.name.endsWith('.ts') && !entry.name.endsWith('.d.ts') ? [file] : [];
+  });
+}
+
+// api/day-logs/[date].ts → /api/day-logs/:date、api/day-logs/index.ts → /api/day-logs
+function toRoute(file: string): Route {
+  const segments = path.relative(API_DIR, file).replace(/\.ts$/, '').split(path.sep);
+  if (segments[segments.length - 1] === 'index') segments.pop();
+
+  const params: string[] = [];
+  const source = segments
+    .map((segment) => {
+      const param = /^\[(\w+)\]$/.exec(segment);
+      if (!param) return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      params.push(param[1]);
+      return '([^/]+)';
+    })
+    .join('/');
+  return { pattern: new RegExp(`^/api${source ? `/${source}` : ''}/?$`), params, file };
+}
+
+// 固定のパス（/api/day-logs/bulk）を動的なパス（/api/day-logs/:date）より先に照合する
+function loadRoutes(): Route[] {
+  return findHandlerFiles(API_DIR)
+    .map(toRoute)
+    .sort((a, b) => a.params.length - b.params.length);
+}
+
+function matchRoute(routes: Route[], pathname: string) {
+  for (const route of routes) {
+    const match = route.pattern.exec(pathname);
+    if (match) {
+      const params = Object.fromEntries(route.params.map((name, index) => [name, decodeURIComponent(match[index + 1])]));
+      return { route, params };
+    }
+  }
+  return null;
+}
+
+// vitest（vite-node）は %5B・%5D にエスケープされた [date].ts を読み込めないので、角括弧は戻しておく
+function toModuleUrl(file: string): string {
+  return pathToFileURL(file).href.replace(/%5B/g, '[').replace(/%5D/g, ']');
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header ?? '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0) cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+  }
+  return cookies;
+}
+
+function parseQuery(searchParams: URLSearchParams): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const key of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(key);
+    query[key] = values.length > 1 ? values : values[0];
+  }
+  return query;
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const raw = Buffer.concat(chunks);
+  if (raw.length === 0) return undefined;
+
+  const contentType = req.headers['content-type'] ?? '';
+  if (contentType.includes('application/json')) return JSON.parse(raw.toString('utf8'));
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(raw.toString('utf8')));
+  }
+  if (contentType.startsWith('text/')) return raw.toString('utf8');
+  return raw;
+}
+
+type LocalResponse = ServerResponse & {
+  status(code: number): LocalResponse;
+  json(body: unknown): LocalResponse;
+  send(body: unknown): LocalResponse;
+  redirect(statusOrUrl: number | string, url?: string): LocalResponse;
+};
+
+function withResponseHelpers(res: ServerResponse): LocalResponse {
+  const response = res as LocalResponse;
+  response.status = (code) => {
+    res.statusCode = code;
+    return response;
+  };
+  response.json = (body) => {
+    if (!res.getHeader('Content-Type')) res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify(body));
+    return response;
+  };
+  response.send = (body) => {
+    if (typeof body === 'object' && body !== null && !Buffer.isBuffer(body)) return response.json(body);
+    res.end(body);
+    return response;
+  };
+  response.redirect = (statusOrUrl, url) => {
+    res.statusCode = typeof statusOrUrl === 'number' ? statusOrUrl : 307;
+    res.setHeader('Location', url ?? String(statusOrUrl));
+    res.end();
+    return response;
+  };
+  return response;
+}
+
+export function createApiServer(): Server {
+  const routes = loadRoutes();
+
+  return createServer(async (req, res) => {
+    const response = withResponseHelpers(res);
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    const matched = matchRoute(routes, url.pathname);
+    if (!matched) {
+      response.status(404).json({ error: 'Not found' });
+      return;
+    }
+    const { route, params } = matched;
+
+    let body: unknown;
+    try {
+      body = await readBody(req);
+    } catch {
+      response.status(400).json({ error: 'Invalid JSON' });
+      return;
+    }
+
+    const request = Object.assign(req, {
+      query: { ...parseQuery(url.searchParams), ...params },
+      cookies: parseCookies(req.headers.cookie),
+      body,
+    });
+
+    try {
+      // ハンドラーは最初のリクエストで読み込む
+      route.handler ??= (await import(toModuleUrl(route.file))).default as Handler;
+      await route.handler(request, response);
+    } catch (error) {
+      console.error(`[api-server] ${req.method} ${url.pathname}`, error);
+      if (!res.headersSent) response.status(500).json({ error: 'Internal server error' });
+      else res.end();
+    }
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.API_PORT || 3000);
+  createApiServer().listen(port, () => {
+    console.log(`API server listening on http://localhost:${port}/api (storage: ${process.env.STORAGE_DRIVER || 'postgres'})`);
+  });
+}
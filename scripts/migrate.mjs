@@ -0,0 +1,32 @@
+// データベースのマイグレーションをローカルから適用する。
+// 接続先は API と同じ環境変数（DATABASE_URL など）で指定する。
+//
+//   npm run migrate             # 未適用のマイグレーションを適用
+//   npm run migrate -- --status # 適用状況を表示するだけ
+import { getDbPool } from '../api/lib/db.js';
+import { getMigrationStatus, runMigrations } from '../api/lib/migrate.js';
+
+async function main() {
+  if (process.argv.includes('--status')) {
+    const { applied, pending } = await getMigrationStatus();
+    for (const migration of applied) console.log(`  applied  ${migration.file}`);
+    for (const migration of pending) console.log(`  pending  ${migration.file}`);
+    return;
+  }
+
+  const ran = await runMigrations();
+  if (ran.length === 0) {
+    console.log('No pending migrations.');
+    return;
+  }
+  for (const migration of ran) console.log(`  applied  ${migration.file}`);
+}
+
+try {
+  await main();
+} catch (error) {
+  console.error(error.message);
+  process.exitCode = 1;
+} finally {
+  await getDbPool().end();
+}
@@ -0,0 +1,59 @@
+// ローカルでプッシュ通知を確認するための簡易プッシュサービス。
+// 起動すると購読情報（subscription）を表示し、届いた通知を復号してログに出す。
+//
+//   node scripts/push-stub.mjs            # http://localhost:8787/push で待ち受け
+//   PORT=9000 node scripts/push-stub.mjs
+import { createECDH, createDecipheriv, hkdfSync, randomBytes } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT || 8787);
+const ecdh = createECDH('prime256v1');
+const userPublicKey = ecdh.generateKeys();
+const authSecret = randomBytes(16);
+
+const subscription = {
+  endpoint: `http://localhost:${port}/push`,
+  keys: {
+    p256dh: userPublicKey.toString('base64url'),
+    auth: authSecret.toString('base64url'),
+  },
+};
+
+// RFC 8291 (aes128gcm) のペイロードを復号する
+function decrypt(body) {
+  const salt = body.subarray(0, 16);
+  const idLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + idLength);
+  const ciphertext = body.subarray(21 + idLength);
+
+  const sharedSecret = ecdh.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const key = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const decipher = createDecipheriv('aes-128-gcm', key, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const plaintext = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+  // 末尾のパディング区切り（0x02）以降を取り除く
+  return plaintext.subarray(0, plaintext.lastIndexOf(2)).toString('utf8');
+}
+
+createServer((req, res) => {
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks);
+    console.log(`[push-stub] ${req.method} ${req.url} TTL=${req.headers.ttl}`);
+    try {
+      console.log('[push-stub] payload:', body.length > 0 ? decrypt(body) : '(empty)');
+    } catch (error) {
+      console.error('[push-stub] failed to decrypt payload:', error.message);
+    }
+    res.writeHead(201).end();
+  });
+}).listen(port, () => {
+  console.log(`[push-stub] listening on http://localhost:${port}/push`);
+  console.log('[push-stub] POST this to /api/push-subscriptions (with your session cookie):');
+  console.log(JSON.stringify({ subscription }));
+});
@@ -0,0 +1,135 @@
+// 日付（YYYY-MM-DD）の扱いをクライアントとサーバーで揃えるためのユーティリティ。
+// toISOString() は UTC なので、日本時間では 9:00 まで前日扱いになってしまう点に注意。
+
+export const DEFAULT_TIME_ZONE = 'Asia/Tokyo';
+// 1日の始まり（HH:mm）。深夜に夜ルーティンを終える人向けに、この時刻までは前日として扱う
+export const DEFAULT_DAY_START_TIME = '00:00';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_START_PATTERN = /^(0\d|1[01]):[0-5]\d(:[0-5]\d)?$/;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+export const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// YYYY-MM-DD 形式で、暦の上で実在する日付か（2024-13-45 や 2023-02-29 は不可）
+export const isValidDateString = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+export const getBrowserTimeZone = (): string => {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+};
+
+// 日付の切り替えは正午より前に限る（それ以降だと「今日」が丸ごとずれてしまうため）
+export const isValidDayStartTime = (value: unknown): value is string =>
+  typeof value === 'string' && DAY_START_PATTERN.test(value);
+
+const toDayStartMinutes = (dayStartTime: string): number => {
+  if (!isValidDayStartTime(dayStartTime)) return 0;
+  const [hours, minutes] = dayStartTime.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// 端末のローカル日付として扱う Date（カレンダーのセル等）を YYYY-MM-DD にする
+export const formatDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// ある時刻が指定タイムゾーンで何日にあたるか
+export const toLocalDateString = (instant: Date, timeZone: string): string => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? '';
+  return `${get('year')}-${get('month')}-${get('day')}`;
+};
+
+// ある時刻が指定タイムゾーンで何時何分（HH:mm）にあたるか
+export const toLocalTimeString = (instant: Date, timeZone: string): string => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? '00';
+  return `${get('hour')}:${get('minute')}`;
+};
+
+// getUtcOffsetMinutes は1回の書き出しで何百回も呼ぶため、タイムゾーンごとに作ったものを使い回す
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// ある時刻の指定タイムゾーンでの UTC からのずれ（分。夏時間中はその分を含む）
+export const getUtcOffsetMinutes = (instant: Date, timeZone: string): number => {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(instant);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+  const local = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((local - Math.floor(instant.getTime() / 1000) * 1000) / (60 * 1000));
+};
+
+// ある時刻がどの DayLog.date に属するか（1日の始まりの時刻より前は前日扱い）
+export const toDayKey = (
+  instant: Date,
+  timeZone: string,
+  dayStartTime: string = DEFAULT_DAY_START_TIME
+): string => {
+  const shifted = new Date(instant.getTime() - toDayStartMinutes(dayStartTime) * 60 * 1000);
+  return toLocalDateString(shifted, timeZone);
+};
+
+export const getToday = (
+  timeZone: string,
+  dayStartTime: string = DEFAULT_DAY_START_TIME,
+  now: Date = new Date()
+): string => toDayKey(now, timeZone, dayStartTime);
+
+// YYYY-MM-DD に日数を足す（タイムゾーンの影響を受けないよう UTC で計算する）
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+};
+
+// YYYY-MM-DD の曜日（0 = 日曜）
+export const getWeekday = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+// 2つの YYYY-MM-DD の差（日数）
+export const diffDays = (from: string, to: string): number => {
+  const toTime = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toTime(to) - toTime(from)) / (1000 * 60 * 60 * 24));
+};
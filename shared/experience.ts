@@ -0,0 +1,80 @@
+import type { Character } from '../src/types';
+
+// 経験値のルール（クライアントの表示とサーバーの計算で共通）
+export const EXP_PER_ROUTINE = 10;
+export const EXP_BONUS_FULL_COMPLETE = 20;
+const EXP_TO_NEXT_BASE = 100;
+const EXP_GROWTH_RATE = 1.5;
+const LEVELS_PER_EVOLUTION = 5;
+
+export type ExperienceReason = 'routine' | 'routine-undo' | 'full-complete';
+
+export interface ExperienceAward {
+  reason: ExperienceReason;
+  amount: number;
+}
+
+export const calculateExperience = (
+  completedRoutines: number,
+  _totalRoutines: number,
+  isFullComplete: boolean
+): number => {
+  let exp = completedRoutines * EXP_PER_ROUTINE;
+  if (isFullComplete) {
+    exp += EXP_BONUS_FULL_COMPLETE;
+  }
+  return exp;
+};
+
+// 指定レベルから次のレベルまでに必要な経験値（100, 150, 225, ...）
+export const experienceToNextForLevel = (level: number): number => {
+  let expToNext = EXP_TO_NEXT_BASE;
+  for (let current = 1; current < level; current++) {
+    expToNext = Math.floor(expToNext * EXP_GROWTH_RATE);
+  }
+  return expToNext;
+};
+
+// exp が負の場合（チェックの取り消し）はレベル・進化段階も戻す
+export const addExperience = (
+  character: Character,
+  exp: number,
+  activeDate: string
+): Character => {
+  let newExp = character.experience + exp;
+  let newLevel = character.level;
+  let newExpToNext = character.experienceToNext;
+  let newEvolutionStage = character.evolutionStage;
+
+  // レベルアップ処理
+  while (newExp >= newExpToNext) {
+    newExp -= newExpToNext;
+    newLevel += 1;
+    newExpToNext = Math.floor(newExpToNext * EXP_GROWTH_RATE); // 次のレベルに必要な経験値が増加
+
+    // 5レベルごとに進化
+    if (newLevel % LEVELS_PER_EVOLUTION === 0) {
+      newEvolutionStage += 1;
+    }
+  }
+
+  // レベルダウン処理
+  while (newExp < 0 && newLevel > 1) {
+    if (newLevel % LEVELS_PER_EVOLUTION === 0) {
+      newEvolutionStage = Math.max(newEvolutionStage - 1, 0);
+    }
+    newLevel -= 1;
+    newExpToNext = experienceToNextForLevel(newLevel);
+    newExp += newExpToNext;
+  }
+  newExp = Math.max(newExp, 0);
+
+  return {
+    ...character,
+    level: newLevel,
+    experience: newExp,
+    experienceToNext: newExpToNext,
+    evolutionStage: newEvolutionStage,
+    lastActiveDate: activeDate,
+  };
+};
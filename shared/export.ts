@@ -0,0 +1,244 @@
+import type { AppData, DayLog, RoutineTemplate, RoutineType } from '../src/types';
+import { getUtcOffsetMinutes } from './date.js';
+
+// 書き出したバックアップを読み込み直せるよう、形式名とバージョンを付けておく
+export const BACKUP_FORMAT = 'totono-life-backup';
+export const BACKUP_VERSION = 1;
+
+export type ExportFormat = 'json' | 'csv' | 'ics';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'ics'];
+
+export type BackupData = Pick<
+  AppData,
+  'character' | 'defaultMorningRoutines' | 'defaultEveningRoutines' | 'dayLogs' | 'settings'
+> & {
+  // アバターを一度も保存していないユーザーは avatar を持たない
+  user: Pick<AppData['user'], 'displayName' | 'email'> & Partial<Pick<AppData['user'], 'avatar'>>;
+};
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  exportedAt: string;
+  data: BackupData;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  ics: 'text/calendar; charset=utf-8',
+};
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  EXPORT_FORMATS.includes(value as ExportFormat);
+
+export const getExportFilename = (format: ExportFormat, today: string): string =>
+  `totono-life-${today}.${format}`;
+
+// 付与済み経験値の記録（rewards）はサーバーの内部状態なので含めない
+const withoutRewards = (log: DayLog): DayLog => {
+  const { rewards: _morningRewards, ...morning } = log.morning;
+  const { rewards: _eveningRewards, ...evening } = log.evening;
+  return { date: log.date, morning, evening };
+};
+
+export const createBackup = (data: BackupData, exportedAt: Date = new Date()): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  data: {
+    user: { displayName: data.user.displayName, email: data.user.email, avatar: data.user.avatar },
+    character: data.character,
+    defaultMorningRoutines: data.defaultMorningRoutines,
+    defaultEveningRoutines: data.defaultEveningRoutines,
+    settings: data.settings,
+    dayLogs: [...data.dayLogs].sort((a, b) => a.date.localeCompare(b.date)).map(withoutRewards),
+  },
+});
+
+const CSV_HEADER = ['date', 'section', 'routine_id', 'routine', 'completed', 'mood'];
+
+const escapeCsv = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// 1日 × ルーティン1項目ごとに1行。Excel で文字化けしないよう BOM を付ける
+export const toCsv = (dayLogs: DayLog[]): string => {
+  const rows = [...dayLogs]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .flatMap((log) =>
+      (['morning', 'evening'] as RoutineType[]).flatMap((section) =>
+        log[section].routines.map((routine) => [
+          log.date,
+          section,
+          routine.templateId ?? routine.id,
+          routine.text,
+          routine.completed ? 1 : 0,
+          log.evening.mood,
+        ])
+      )
+    );
+  return `\uFEFF${[CSV_HEADER, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n')}\r\n`;
+};
+
+const escapeIcsText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// iCalendar の1行は75オクテットまで。超える分は空白で始まる継続行に折り返す
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcsDateTime = (date: string, time: string): string =>
+  `${date.replace(/-/g, '')}T${time.replace(':', '').slice(0, 4)}00`;
+
+const toIcsTimestamp = (instant: Date): string => `${instant.toISOString().replace(/[-:]/g, '').slice(0, 15)}Z`;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// VTIMEZONE に書き出すオフセットの変更（夏時間の開始・終了）を調べる期間。これより先はカレンダー側で最後のオフセットのままになる
+const TIME_ZONE_RULE_YEARS = 10;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const toIcsOffset = (minutes: number): string =>
+  `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+
+// UTC の時刻（ミリ秒）をオフセット分ずらしたローカルの日時
+const toIcsLocalDateTime = (instant: number, offsetMinutes: number): string =>
+  new Date(instant + offsetMinutes * MINUTE_MS).toISOString().replace(/[-:]/g, '').slice(0, 15);
+
+interface OffsetObservance {
+  onsets: number[]; // UTC の時刻（ミリ秒）
+  from: number;
+  to: number;
+}
+
+// from から TIME_ZONE_RULE_YEARS 年分のオフセットの変わり目。
+// 1週間ごとにオフセットを比べ、変わっていればその間を二分探索して変わった分を求める（週に2回以上変わる場合は考えない）
+const findOffsetTransitions = (timeZone: string, from: number): OffsetObservance[] => {
+  const offsetAt = (instant: number) => getUtcOffsetMinutes(new Date(instant), timeZone);
+  const end = from + TIME_ZONE_RULE_YEARS * 366 * DAY_MS;
+  const transitions: OffsetObservance[] = [];
+  let previous = offsetAt(from);
+  for (let time = from + 7 * DAY_MS; time <= end; time += 7 * DAY_MS) {
+    const offset = offsetAt(time);
+    if (offset === previous) continue;
+    let low = time - 7 * DAY_MS;
+    let high = time;
+    while (high - low > MINUTE_MS) {
+      const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (offsetAt(middle) === previous) low = middle;
+      else high = middle;
+    }
+    transitions.push({ onsets: [high], from: previous, to: offset });
+    previous = offset;
+  }
+  return transitions;
+};
+
+// DTSTART の TZID が指すタイムゾーンの定義（RFC 5545 では TZID を使うなら VTIMEZONE が必要）。
+// 規則（RRULE）は持たず、期間内の変わり目を同じオフセットの組ごとに RDATE で列挙する
+const toVTimeZone = (timeZone: string, today: string): string[] => {
+  const start = Date.parse(`${today}T00:00:00Z`) - DAY_MS;
+  const initial = getUtcOffsetMinutes(new Date(start), timeZone);
+  const observances: OffsetObservance[] = [{ onsets: [start], from: initial, to: initial }];
+  for (const transition of findOffsetTransitions(timeZone, start)) {
+    const same = observances.find((observance) => observance.from === transition.from && observance.to === transition.to);
+    if (same) same.onsets.push(...transition.onsets);
+    else observances.push(transition);
+  }
+
+  // 小さい方のオフセットを標準時、それより大きいものを夏時間として扱う
+  const standardOffset = Math.min(...observances.map((observance) => observance.to));
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...observances.flatMap(({ onsets, from, to }) => {
+      const component = to > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+      const [first, ...rest] = onsets.map((onset) => toIcsLocalDateTime(onset, from));
+      return [
+        `BEGIN:${component}`,
+        `DTSTART:${first}`,
+        ...(rest.length > 0 ? [`RDATE:${rest.join(',')}`] : []),
+        `TZOFFSETFROM:${toIcsOffset(from)}`,
+        `TZOFFSETTO:${toIcsOffset(to)}`,
+        `END:${component}`,
+      ];
+    }),
+    'END:VTIMEZONE',
+  ];
+};
+
+// UID に入れるユーザーごとの識別子。ユーザーIDそのものはファイルに書き出さない（FNV-1a 64bit）
+const toCalendarId = (userId: string): string => {
+  let hash = 0xcbf29ce484222325n;
+  for (const byte of new TextEncoder().encode(userId)) {
+    hash = ((hash ^ BigInt(byte)) * 0x100000001b3n) & 0xffffffffffffffffn;
+  }
+  return hash.toString(16).padStart(16, '0');
+};
+
+// 朝・夜の通知時刻に毎日繰り返すリマインダー（ルーティンの一覧を説明に入れる）。
+// UID はユーザーごとに変え、別のユーザーのカレンダーを取り込んでも予定が上書きされないようにする
+export const toICalendar = (data: BackupData, today: string, userId: string, now: Date = new Date()): string => {
+  const { timeZone, morningNotificationTime, eveningNotificationTime } = data.settings;
+  const calendarId = toCalendarId(userId);
+  const reminders: { section: RoutineType; summary: string; time: string; templates: RoutineTemplate[] }[] = [
+    { section: 'morning', summary: '🌅 朝のルーティン', time: morningNotificationTime, templates: data.defaultMorningRoutines },
+    { section: 'evening', summary: '🌙 夜のルーティン', time: eveningNotificationTime, templates: data.defaultEveningRoutines },
+  ];
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Totono Life//Routine Reminders//JA',
+    'CALSCALE:GREGORIAN',
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...toVTimeZone(timeZone, today),
+    ...reminders.flatMap(({ section, summary, time, templates }) => [
+      'BEGIN:VEVENT',
+      `UID:${section}-reminder-${calendarId}@totono-life`,
+      `DTSTAMP:${toIcsTimestamp(now)}`,
+      `DTSTART;TZID=${timeZone}:${toIcsDateTime(today, time)}`,
+      'DURATION:PT15M',
+      'RRULE:FREQ=DAILY',
+      `SUMMARY:${escapeIcsText(summary)}`,
+      `DESCRIPTION:${escapeIcsText(templates.map((template) => `・${template.text}`).join('\n'))}`,
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeIcsText(summary)}`,
+      'TRIGGER:PT0M',
+      'END:VALARM',
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+};
+
+export const serialiseExport = (format: ExportFormat, data: BackupData, today: string, userId: string): string => {
+  switch (format) {
+    case 'csv':
+      return toCsv(data.dayLogs);
+    case 'ics':
+      return toICalendar(data, today, userId);
+    default:
+      return JSON.stringify(createBackup(data), null, 2);
+  }
+};
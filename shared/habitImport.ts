@@ -0,0 +1,229 @@
+import type { DayLog, RoutineItem, RoutineTemplate, RoutineType } from '../src/types';
+import { isValidDateString } from './date.js';
+import { DAILY_SCHEDULE, getRoutineTemplateId } from './schedule.js';
+
+// 他の習慣アプリの CSV から取り込む。
+// loop: Loop Habit Tracker の Checkmarks.csv（1列目が日付、以降が習慣ごとの列）
+// generic: 日付・習慣名・達成の3列（1行 = 1日 × 1習慣）
+export type HabitCsvFormat = 'loop' | 'generic';
+
+// 1回の一括登録で送れる日数（サーバーの上限と合わせる）
+export const BULK_DAY_LOG_LIMIT = 366;
+
+export interface HabitEntry {
+  date: string;
+  habit: string;
+  done: boolean;
+}
+
+export interface ParsedHabitCsv {
+  format: HabitCsvFormat;
+  habits: string[];
+  entries: HabitEntry[];
+  from: string | null;
+  to: string | null;
+}
+
+export type HabitCsvParseResult = { parsed: ParsedHabitCsv | null; error: string | null };
+
+// 習慣ごとの取り込み先（null は取り込まない）
+export type HabitMapping = Record<string, RoutineType | null>;
+
+const GENERIC_COLUMNS = {
+  date: ['date', 'day', '日付'],
+  habit: ['habit', 'name', 'routine', '習慣', 'ルーティン'],
+  done: ['done', 'completed', 'value', 'status', '達成', '完了'],
+};
+
+const DONE_VALUES = ['1', 'true', 'yes', 'y', 'done', 'x', '✓', '✔', '○', '済'];
+const NOT_DONE_VALUES = ['0', 'false', 'no', 'n', '×', '未'];
+
+// Loop Habit Tracker の値: 2 = 達成、0 = 未達成、1 = 頻度の設定で自動的に埋まった日、-1 = 記録なし。
+// 実際にチェックした日だけを達成として扱う
+const LOOP_DONE = 2;
+const LOOP_NOT_DONE = 0;
+
+// RFC 4180 の CSV（ダブルクォート内の , と改行、"" のエスケープ）を行 × 列に分ける
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+// 2024-1-5 や 2024/01/05 も受け付け、YYYY-MM-DD に揃える（存在しない日付は null）
+const normaliseDate = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+  return isValidDateString(date) ? date : null;
+};
+
+const parseDone = (value: string): boolean | null => {
+  const normalised = value.trim().toLowerCase();
+  if (DONE_VALUES.includes(normalised)) return true;
+  if (NOT_DONE_VALUES.includes(normalised)) return false;
+  return null;
+};
+
+const findColumn = (header: string[], names: string[]): number =>
+  header.findIndex((cell) => names.includes(cell.trim().toLowerCase()));
+
+const parseLoopRows = (header: string[], rows: string[][]): HabitEntry[] =>
+  rows.flatMap((row) => {
+    const date = normaliseDate(row[0] ?? '');
+    if (!date) return [];
+    return header.slice(1).flatMap((habit, index): HabitEntry[] => {
+      const value = Number((row[index + 1] ?? '').trim());
+      if (value === LOOP_DONE) return [{ date, habit, done: true }];
+      if (value === LOOP_NOT_DONE) return [{ date, habit, done: false }];
+      return [];
+    });
+  });
+
+const parseGenericRows = (columns: { date: number; habit: number; done: number }, rows: string[][]): HabitEntry[] =>
+  rows.flatMap((row): HabitEntry[] => {
+    const date = normaliseDate(row[columns.date] ?? '');
+    const habit = (row[columns.habit] ?? '').trim();
+    const done = parseDone(row[columns.done] ?? '');
+    return date && habit && done !== null ? [{ date, habit, done }] : [];
+  });
+
+export const parseHabitCsv = (text: string): HabitCsvParseResult => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || rows.length === 0) {
+    return { parsed: null, error: 'CSV に記録がありません' };
+  }
+
+  const columns = {
+    date: findColumn(header, GENERIC_COLUMNS.date),
+    habit: findColumn(header, GENERIC_COLUMNS.habit),
+    done: findColumn(header, GENERIC_COLUMNS.done),
+  };
+  const isGeneric = columns.date >= 0 && columns.habit >= 0 && columns.done >= 0;
+  const isLoop = !isGeneric && columns.date === 0 && header.length > 1;
+  if (!isGeneric && !isLoop) {
+    return { parsed: null, error: '対応していない CSV です（date, habit, done の列が必要です）' };
+  }
+
+  const format: HabitCsvFormat = isGeneric ? 'generic' : 'loop';
+  const rawEntries = isGeneric ? parseGenericRows(columns, rows) : parseLoopRows(header.map((cell) => cell.trim()), rows);
+  // 同じ日・同じ習慣が複数行あるときは、どれかで達成していれば達成とする
+  const byKey = new Map<string, HabitEntry>();
+  for (const entry of rawEntries) {
+    const key = `${entry.date}\u0000${entry.habit}`;
+    const current = byKey.get(key);
+    byKey.set(key, current ? { ...current, done: current.done || entry.done } : entry);
+  }
+  const sorted = [...byKey.values()].sort((a, b) => a.date.localeCompare(b.date));
+  if (sorted.length === 0) {
+    return { parsed: null, error: '取り込める記録が見つかりませんでした' };
+  }
+
+  return {
+    parsed: {
+      format,
+      habits: [...new Set(sorted.map((entry) => entry.habit))],
+      entries: sorted,
+      from: sorted[0].date,
+      to: sorted[sorted.length - 1].date,
+    },
+    error: null,
+  };
+};
+
+const toSection = (routines: RoutineItem[]) => ({
+  routines,
+  completed: routines.length > 0 && routines.every((item) => item.completed),
+});
+
+// 取り込んだ習慣をルーティン定義に割り当て、日次ログを作る。
+// 同じ名前のルーティンが既にあればそれに紐付け、無ければ毎日実施のルーティンとして追加する
+export const buildHabitImport = (
+  parsed: ParsedHabitCsv,
+  mapping: HabitMapping,
+  templates: Record<RoutineType, RoutineTemplate[]>,
+  createId: () => string
+): { templates: Record<RoutineType, RoutineTemplate[]>; dayLogs: DayLog[] } => {
+  const next: Record<RoutineType, RoutineTemplate[]> = { morning: [...templates.morning], evening: [...templates.evening] };
+  const targets = new Map<string, { section: RoutineType; template: RoutineTemplate }>();
+
+  for (const habit of parsed.habits) {
+    const section = mapping[habit];
+    if (!section) continue;
+    let template = next[section].find((candidate) => candidate.text === habit);
+    if (!template) {
+      template = { id: createId(), text: habit, schedule: DAILY_SCHEDULE };
+      next[section].push(template);
+    }
+    targets.set(habit, { section, template });
+  }
+
+  const byDate = new Map<string, Record<RoutineType, RoutineItem[]>>();
+  for (const entry of parsed.entries) {
+    const target = targets.get(entry.habit);
+    if (!target) continue;
+    const sections = byDate.get(entry.date) ?? { morning: [], evening: [] };
+    sections[target.section].push({
+      id: target.template.id,
+      templateId: target.template.id,
+      text: target.template.text,
+      completed: entry.done,
+    });
+    byDate.set(entry.date, sections);
+  }
+
+  const dayLogs = [...byDate].map(([date, sections]) => ({
+    date,
+    morning: toSection(sections.morning),
+    evening: toSection(sections.evening),
+  }));
+  return { templates: next, dayLogs };
+};
+
+// 既にある日の記録には、まだ無いルーティンの項目だけを追加する（既存の項目・気分・日記は変えない）
+export const mergeImportedDayLog = (existing: DayLog | null, imported: DayLog): DayLog => {
+  if (!existing) return imported;
+  const mergeSection = (current: RoutineItem[], incoming: RoutineItem[]) => {
+    const known = new Set(current.map(getRoutineTemplateId));
+    return [...current, ...incoming.filter((item) => !known.has(getRoutineTemplateId(item)))];
+  };
+  return {
+    ...existing,
+    morning: { ...existing.morning, ...toSection(mergeSection(existing.morning.routines, imported.morning.routines)) },
+    evening: { ...existing.evening, ...toSection(mergeSection(existing.evening.routines, imported.evening.routines)) },
+  };
+};
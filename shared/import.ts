@@ -0,0 +1,102 @@
+import { BACKUP_FORMAT, BACKUP_VERSION, BackupFile } from './export.js';
+import { backupDataSchema } from './requestSchemas.js';
+import { normaliseRoutineTemplates } from './schedule.js';
+import { validate } from './schema.js';
+
+// merge: 手元に無い日だけを追加する / replace: 記録・設定・キャラクターの見た目をバックアップの内容に置き換える。
+// レベル・経験値はサーバーが計算した値を使い、バックアップの値では変えない
+export type ImportMode = 'merge' | 'replace';
+
+export const IMPORT_MODES: ImportMode[] = ['merge', 'replace'];
+
+export interface ImportSummary {
+  mode: ImportMode;
+  days: number; // バックアップに含まれる日数
+  from: string | null;
+  to: string | null;
+  addedDays: number; // 新しく追加される日
+  overwrittenDays: number; // バックアップの内容で上書きされる日（replace のみ）
+  removedDays: number; // バックアップに無いため削除される日（replace のみ）
+  keptDays: number; // 既にあるため変更しない日（merge のみ）
+  characterLevel: { current: number; next: number };
+}
+
+// 読み込めなかったときは backup が null になり、errors に理由が入る
+export interface BackupParseResult {
+  backup: BackupFile | null;
+  errors: string[];
+}
+
+export const isImportMode = (value: unknown): value is ImportMode => IMPORT_MODES.includes(value as ImportMode);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+// バックアップファイル（JSON.parse 済み）を検証し、読み込める形に揃える。
+// data の中身は API と同じスキーマ（shared/requestSchemas.ts）で検証する
+export const parseBackup = (value: unknown): BackupParseResult => {
+  if (!isObject(value) || value.format !== BACKUP_FORMAT) {
+    return { backup: null, errors: ['ととのライフのバックアップファイルではありません'] };
+  }
+  if (!Number.isInteger(value.version) || (value.version as number) < 1) {
+    return { backup: null, errors: ['バックアップのバージョンが不正です'] };
+  }
+  if ((value.version as number) > BACKUP_VERSION) {
+    return { backup: null, errors: ['新しいバージョンのアプリで作られたバックアップです。アプリを更新してください'] };
+  }
+
+  const { value: data, issues } = validate(backupDataSchema, value.data);
+  const errors = issues.map((issue) => `${issue.path}: ${issue.message}`);
+  const seen = new Set<string>();
+  for (const log of data?.dayLogs ?? []) {
+    if (seen.has(log.date)) errors.push(`${log.date} の記録が重複しています`);
+    seen.add(log.date);
+  }
+  if (!data || errors.length > 0) {
+    return { backup: null, errors };
+  }
+
+  return {
+    errors: [],
+    backup: {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: typeof value.exportedAt === 'string' ? value.exportedAt : '',
+      data: {
+        ...data,
+        defaultMorningRoutines: normaliseRoutineTemplates(data.defaultMorningRoutines, 'morning'),
+        defaultEveningRoutines: normaliseRoutineTemplates(data.defaultEveningRoutines, 'evening'),
+        settings: {
+          ...data.settings,
+          morningNotificationTime: data.settings.morningNotificationTime.slice(0, 5),
+          eveningNotificationTime: data.settings.eveningNotificationTime.slice(0, 5),
+        },
+      },
+    },
+  };
+};
+
+// 取り込んだときに何が変わるか（existingDates はサーバーにある全期間の日付）
+export const summariseImport = (
+  backup: BackupFile,
+  mode: ImportMode,
+  existingDates: string[],
+  currentLevel: number
+): ImportSummary => {
+  const existing = new Set(existingDates);
+  const dates = backup.data.dayLogs.map((log) => log.date).sort();
+  const incoming = new Set(dates);
+  const overlapping = dates.filter((date) => existing.has(date)).length;
+
+  return {
+    mode,
+    days: dates.length,
+    from: dates[0] ?? null,
+    to: dates[dates.length - 1] ?? null,
+    addedDays: dates.length - overlapping,
+    overwrittenDays: mode === 'replace' ? overlapping : 0,
+    removedDays: mode === 'replace' ? existingDates.filter((date) => !incoming.has(date)).length : 0,
+    keptDays: mode === 'merge' ? overlapping : 0,
+    characterLevel: { current: currentLevel, next: currentLevel },
+  };
+};
@@ -0,0 +1,54 @@
+import type { DayLog, Mood, MoodTag, MoodTags } from '../src/types';
+
+export const MOOD_SCALE: Mood[] = [1, 2, 3, 4, 5];
+
+export const MOOD_OPTIONS: Record<Mood, { emoji: string; label: string; color: string }> = {
+  1: { emoji: '😣', label: 'とても悪い', color: '#9fa8da' },
+  2: { emoji: '😞', label: '良くない', color: '#b3c7f2' },
+  3: { emoji: '😐', label: '普通', color: '#e6e9f2' },
+  4: { emoji: '🙂', label: '良い', color: '#ffe08a' },
+  5: { emoji: '😄', label: 'とても良い', color: '#ffb26b' },
+};
+
+export const MOOD_TAGS: { tag: MoodTag; label: string; low: string; high: string }[] = [
+  { tag: 'sleepQuality', label: '😴 睡眠の質', low: '悪い', high: '良い' },
+  { tag: 'energy', label: '⚡ 元気', low: '低い', high: '高い' },
+  { tag: 'stress', label: '🌀 ストレス', low: '少ない', high: '多い' },
+  { tag: 'social', label: '🤝 人との交流', low: '少ない', high: '多い' },
+];
+
+export const MAX_JOURNAL_LENGTH = 2000;
+
+// 以前の3段階の気分は 良い = 4, 普通 = 3, 良くない = 2 として扱う
+const LEGACY_MOODS: Record<string, Mood> = { happy: 4, neutral: 3, sad: 2 };
+
+export const isMood = (value: unknown): value is Mood => MOOD_SCALE.includes(value as Mood);
+
+export const normaliseMood = (value: unknown): Mood | undefined => {
+  if (isMood(value)) return value;
+  return typeof value === 'string' ? LEGACY_MOODS[value] : undefined;
+};
+
+export const normaliseMoodTags = (value: unknown): MoodTags | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const source = value as Record<string, unknown>;
+  const tags: MoodTags = {};
+  for (const { tag } of MOOD_TAGS) {
+    if (isMood(source[tag])) tags[tag] = source[tag] as Mood;
+  }
+  return Object.keys(tags).length > 0 ? tags : undefined;
+};
+
+// 夜のセクションのうち気分・タグ・ふりかえりの部分を正規化する。
+// 不正な値を上書きで消せるよう、未設定の項目も undefined のキーとして返す
+export const normaliseEveningJournal = (
+  section: unknown
+): Pick<DayLog['evening'], 'mood' | 'tags' | 'journal'> => {
+  const source = (section && typeof section === 'object' ? section : {}) as Record<string, unknown>;
+  const journal = typeof source.journal === 'string' ? source.journal.slice(0, MAX_JOURNAL_LENGTH) : '';
+  return {
+    mood: normaliseMood(source.mood),
+    tags: normaliseMoodTags(source.tags),
+    journal: journal.trim() ? journal : undefined,
+  };
+};
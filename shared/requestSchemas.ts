@@ -0,0 +1,225 @@
+import type {
+  AvatarConfig,
+  BulkDayLogsRequest,
+  Character,
+  CharacterRequest,
+  ChatRequest,
+  DayLog,
+  DayLogPatchRequest,
+  MoodTags,
+  ProfileRequest,
+  RegisterRequest,
+  RoutineItem,
+  RoutineSchedule,
+  RoutineSettingsRequest,
+  RoutineTemplate,
+} from '../src/types';
+import { isValidDateString, isValidDayStartTime, isValidTimeZone } from './date.js';
+import type { BackupData } from './export.js';
+import { BULK_DAY_LOG_LIMIT } from './habitImport.js';
+import { MAX_JOURNAL_LENGTH, MOOD_SCALE, normaliseMood } from './mood.js';
+import { DEFAULT_BACKFILL_GRACE_DAYS, isValidBackfillGraceDays, MAX_BACKFILL_GRACE_DAYS } from './routineEvents.js';
+import {
+  array,
+  boolean,
+  custom,
+  ignored,
+  number,
+  object,
+  oneOf,
+  optional,
+  refine,
+  Schema,
+  string,
+  withDefault,
+} from './schema.js';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const EMAIL_PATTERN = /^(|[^\s@]+@[^\s@]+\.[^\s@]+)$/;
+
+const MAX_ROUTINES = 50;
+const MAX_TEXT_LENGTH = 100;
+// バックアップには全期間の記録が入るので、数年分までは受け付ける
+const MAX_DAY_LOGS = 3660;
+
+// キャラクターの見た目。データベースの theme_type（database/migrations/001）と同じ値にする
+export const CHARACTER_THEMES = ['plant', 'animal', 'robot'] as const;
+
+export type CharacterTheme = (typeof CHARACTER_THEMES)[number];
+
+export const isCharacterTheme = (value: unknown): value is CharacterTheme =>
+  CHARACTER_THEMES.includes(value as CharacterTheme);
+
+const theme = oneOf(...CHARACTER_THEMES);
+const date = refine<string>(string(), isValidDateString, 'YYYY-MM-DD 形式の実在する日付で指定してください');
+const time = string({ pattern: TIME_PATTERN });
+const color = string({ pattern: COLOR_PATTERN });
+const id = string({ min: 1, max: 100 });
+const mood = oneOf(...MOOD_SCALE);
+
+export const avatarConfigSchema: Schema<AvatarConfig> = object({
+  skinTone: color,
+  hairColor: color,
+  clothingColor: color,
+  outlineColor: color,
+  accentColor: color,
+  cheekColor: color,
+  accessory: oneOf('none', 'hat', 'glasses', 'scarf'),
+});
+
+const scheduleSchemas: { [K in RoutineSchedule['type']]: Schema<RoutineSchedule> } = {
+  daily: object({ type: oneOf('daily') }),
+  weekly: object({ type: oneOf('weekly'), days: array(number({ integer: true, min: 0, max: 6 }), { max: 7 }) }),
+  interval: object({ type: oneOf('interval'), everyDays: number({ integer: true, min: 1, max: 365 }), startDate: date }),
+};
+
+// type ごとに項目が違うので、type を見てから対応するスキーマで検証する
+const routineScheduleSchema: Schema<RoutineSchedule> = (value, path, issues) => {
+  const type = (value as { type?: unknown } | null)?.type;
+  const schema = scheduleSchemas[type as RoutineSchedule['type']];
+  if (schema) return schema(value, path, issues);
+  // 対応していない type はここで必ずエラーになる
+  oneOf('daily', 'weekly', 'interval')(type, `${path}.type`, issues);
+  return undefined as never;
+};
+
+const routineTemplateSchema: Schema<RoutineTemplate> = object({
+  id,
+  // 編集中の空欄は保存時に取り除く（normaliseRoutineTemplates）ので、ここでは長さだけを見る
+  text: string({ max: MAX_TEXT_LENGTH, trim: true }),
+  schedule: routineScheduleSchema,
+  targetTime: optional(time),
+});
+
+const routineItemSchema: Schema<RoutineItem> = object({
+  id,
+  templateId: optional(id),
+  text: string({ max: MAX_TEXT_LENGTH }),
+  completed: boolean(),
+  updatedAt: optional(string({ max: 40 })),
+});
+
+const routineItems = array(routineItemSchema, { max: MAX_ROUTINES });
+
+const moodTagsSchema: Schema<MoodTags> = object({
+  sleepQuality: optional(mood),
+  energy: optional(mood),
+  stress: optional(mood),
+  social: optional(mood),
+});
+
+// 付与済み経験値の記録（rewards）はルーティンのイベントでのみ更新するので受け付けない
+const morningSectionSchema: Schema<DayLog['morning']> = object({ routines: routineItems, completed: boolean(), rewards: ignored() });
+
+const eveningSectionSchema: Schema<DayLog['evening']> = object({
+  routines: routineItems,
+  completed: boolean(),
+  // 以前の3段階の気分（happy など）も受け付けて5段階に直す
+  mood: optional(custom(normaliseMood, '1〜5 の整数で指定してください')),
+  tags: optional(moodTagsSchema),
+  journal: optional(string({ max: MAX_JOURNAL_LENGTH })),
+  rewards: ignored(),
+});
+
+export const dayLogSchema: Schema<DayLog> = object({
+  date,
+  morning: morningSectionSchema,
+  evening: eveningSectionSchema,
+  updatedAt: ignored(),
+});
+
+export const dayLogPatchSchema: Schema<DayLogPatchRequest> = refine<DayLogPatchRequest>(
+  object({
+    morning: optional(morningSectionSchema),
+    evening: optional(eveningSectionSchema),
+    baseUpdatedAt: optional(string({ max: 40 })),
+  }),
+  (patch) => Boolean(patch.morning || patch.evening),
+  'morning または evening を指定してください'
+);
+
+export const bulkDayLogsSchema: Schema<BulkDayLogsRequest> = object({
+  dayLogs: refine<DayLog[]>(
+    array(dayLogSchema, { max: BULK_DAY_LOG_LIMIT }),
+    (logs) => logs.length > 0,
+    '1件以上指定してください'
+  ),
+});
+
+// 通知時刻は必須（リマインダーとカレンダーの書き出しで使う）。タイムゾーンなどは省略すると今の設定のまま
+const settingsSchema: Schema<RoutineSettingsRequest['settings']> = object({
+  morningNotificationTime: time,
+  eveningNotificationTime: time,
+  timeZone: optional(refine<string>(string(), isValidTimeZone, 'IANA のタイムゾーン名で指定してください')),
+  dayStartTime: optional(refine<string>(string(), isValidDayStartTime, '00:00〜11:59 の HH:mm で指定してください')),
+  backfillGraceDays: optional(
+    refine<number>(number(), isValidBackfillGraceDays, `0〜${MAX_BACKFILL_GRACE_DAYS} の整数で指定してください`)
+  ),
+});
+
+export const routineSettingsSchema: Schema<RoutineSettingsRequest> = object({
+  defaultMorningRoutines: array(routineTemplateSchema, { max: MAX_ROUTINES }),
+  defaultEveningRoutines: array(routineTemplateSchema, { max: MAX_ROUTINES }),
+  settings: settingsSchema,
+});
+
+export const characterRequestSchema: Schema<CharacterRequest> = object({ character: object({ theme }) });
+
+const profileShape = {
+  displayName: string({ min: 1, max: 50, trim: true }),
+  email: optional(string({ max: 254, pattern: EMAIL_PATTERN, trim: true })),
+  avatar: optional(avatarConfigSchema),
+};
+
+export const profileSchema: Schema<ProfileRequest> = object(profileShape);
+
+export const registerSchema: Schema<RegisterRequest> = object({
+  ...profileShape,
+  timeZone: optional(refine<string>(string(), isValidTimeZone, 'IANA のタイムゾーン名で指定してください')),
+});
+
+export const chatSchema: Schema<ChatRequest> = object({
+  message: string({ min: 1, max: 1000, trim: true }),
+  level: optional(number({ integer: true, min: 1 })),
+  experienceRatio: optional(number({ min: 0, max: 1 })),
+  history: optional(
+    array(object({ sender: oneOf('user', 'character'), text: string({ max: 1000 }) }), { max: 50 })
+  ),
+  userName: optional(string({ max: 50, trim: true })),
+});
+
+const characterSchema: Schema<Character> = object({
+  level: number({ integer: true, min: 1 }),
+  experience: number({ integer: true, min: 0 }),
+  experienceToNext: number({ integer: true, min: 1 }),
+  // 取り込むときに theme_type の値か確かめる（それ以外なら今の見た目のまま）
+  theme: string({ max: 32 }) as Schema<Character['theme']>,
+  evolutionStage: number({ integer: true, min: 0 }),
+  lastActiveDate: withDefault(string({ max: 10 }), ''),
+  updatedAt: ignored(),
+});
+
+// POST /api/import のバックアップファイルの data（形式名・バージョンは shared/import.ts で確かめる）
+export const backupDataSchema: Schema<BackupData> = object({
+  user: object({
+    displayName: string({ min: 1, max: 50, trim: true }),
+    email: withDefault(string({ max: 254 }), ''),
+    avatar: optional(avatarConfigSchema),
+  }),
+  character: characterSchema,
+  defaultMorningRoutines: array(routineTemplateSchema, { max: MAX_ROUTINES }),
+  defaultEveningRoutines: array(routineTemplateSchema, { max: MAX_ROUTINES }),
+  settings: object({
+    morningNotificationTime: time,
+    eveningNotificationTime: time,
+    timeZone: refine<string>(string(), isValidTimeZone, 'IANA のタイムゾーン名で指定してください'),
+    dayStartTime: refine<string>(string(), isValidDayStartTime, '00:00〜11:59 の HH:mm で指定してください'),
+    // 猶予日数はバージョン1の途中で追加したので、無ければ既定値にする
+    backfillGraceDays: withDefault(
+      refine<number>(number(), isValidBackfillGraceDays, `0〜${MAX_BACKFILL_GRACE_DAYS} の整数で指定してください`),
+      DEFAULT_BACKFILL_GRACE_DAYS
+    ),
+  }),
+  dayLogs: array(dayLogSchema, { max: MAX_DAY_LOGS }),
+});
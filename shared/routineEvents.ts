@@ -0,0 +1,101 @@
+import type { DayLog, RoutineType } from '../src/types';
+import { diffDays } from './date.js';
+import { EXP_BONUS_FULL_COMPLETE, EXP_PER_ROUTINE, ExperienceAward } from './experience.js';
+
+// 過去の日のチェックは猶予日数以内なら付け直せる。ただし獲得できる経験値は BACKFILL_EXPERIENCE_RATE 倍
+export const DEFAULT_BACKFILL_GRACE_DAYS = 1;
+export const MAX_BACKFILL_GRACE_DAYS = 7;
+export const BACKFILL_EXPERIENCE_RATE = 0.5;
+
+// ルーティンのチェック操作1回分。サーバーはこのイベントから経験値を計算する
+export interface RoutineEvent {
+  date: string; // YYYY-MM-DD
+  section: RoutineType;
+  routineId: string;
+  completed: boolean;
+  occurredAt: string;
+}
+
+export const isValidBackfillGraceDays = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_BACKFILL_GRACE_DAYS;
+
+// today から graceDays 日前までなら記録を修正できる（未来の日は不可）
+export const canEditDate = (date: string, today: string, graceDays: number): boolean =>
+  date <= today && diffDays(date, today) <= graceDays;
+
+// 日次ログの更新がルーティンの項目や達成状態を変えるか。修正できる期間を過ぎた日は、気分や日記だけを更新できる。
+// 記録の無い日は、何も達成していない内容なら変更とみなさない
+export const changesRoutines = (current: DayLog | null, patch: Partial<Pick<DayLog, RoutineType>>): boolean =>
+  (['morning', 'evening'] as const).some((type) => {
+    const next = patch[type];
+    if (!next) return false;
+    const before = current?.[type];
+    if (!before) return next.completed || next.routines.some((routine) => routine.completed);
+    const toState = (section: DayLog[RoutineType]) =>
+      JSON.stringify([section.completed, section.routines.map((routine) => [routine.id, routine.completed])]);
+    return toState(next) !== toState(before);
+  });
+
+export const getExperienceRate = (date: string, today: string): number =>
+  date < today ? BACKFILL_EXPERIENCE_RATE : 1;
+
+// イベントの項目が日次ログに無ければ、その日の予定（scheduled）から項目を追加する。
+// ログにも予定にも無い項目は受け付けない（null）。項目名はクライアントから受け取らず、ログか予定のものを使う
+export const withEventRoutine = (log: DayLog, scheduled: DayLog, event: RoutineEvent): DayLog | null => {
+  const section = log[event.section];
+  if (section.routines.some((routine) => routine.id === event.routineId)) return log;
+  const routine = scheduled[event.section].routines.find((item) => item.id === event.routineId);
+  if (!routine) return null;
+  return { ...log, [event.section]: { ...section, routines: [...section.routines, routine] } };
+};
+
+// イベントを日次ログに反映し、経験値の増減の内訳を返す。ログに無い項目のイベントは何もしない。
+// 各項目の経験値は1日1回だけ付与し、チェックを外すと取り消す。全達成ボーナスはセクションごとに1日1回まで。
+// 後から付けたチェックは experienceRate で減らした経験値を付与する（取り消すときは付与した分だけ戻す）
+export const applyRoutineEvent = (
+  log: DayLog,
+  event: RoutineEvent,
+  experienceRate = 1
+): { log: DayLog; awards: ExperienceAward[] } => {
+  const section = log[event.section];
+  if (!section.routines.some((routine) => routine.id === event.routineId)) {
+    return { log, awards: [] };
+  }
+  const routines = section.routines.map((routine) =>
+    routine.id === event.routineId ? { ...routine, completed: event.completed, updatedAt: event.occurredAt } : routine
+  );
+  const completed = routines.length > 0 && routines.every((routine) => routine.completed);
+
+  const previousRewards = section.rewards ?? { routineExperience: {}, bonusExperience: 0 };
+  const routineExperience = { ...previousRewards.routineExperience };
+  let bonusExperience = previousRewards.bonusExperience;
+  const awarded = routineExperience[event.routineId] ?? 0;
+  const awards: ExperienceAward[] = [];
+
+  if (event.completed && awarded === 0) {
+    const amount = Math.floor(EXP_PER_ROUTINE * experienceRate);
+    routineExperience[event.routineId] = amount;
+    awards.push({ reason: 'routine', amount });
+  } else if (!event.completed && awarded > 0) {
+    delete routineExperience[event.routineId];
+    awards.push({ reason: 'routine-undo', amount: -awarded });
+  }
+
+  if (completed && bonusExperience === 0) {
+    bonusExperience = Math.floor(EXP_BONUS_FULL_COMPLETE * experienceRate);
+    awards.push({ reason: 'full-complete', amount: bonusExperience });
+  }
+
+  return {
+    log: {
+      ...log,
+      [event.section]: {
+        ...section,
+        routines,
+        completed,
+        rewards: { routineExperience, bonusExperience },
+      },
+    },
+    awards,
+  };
+};
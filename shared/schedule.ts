@@ -0,0 +1,146 @@
+import type { DayLog, RoutineItem, RoutineSchedule, RoutineTemplate, RoutineType } from '../src/types';
+import { diffDays, getWeekday, isValidDateString } from './date.js';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const DAILY_SCHEDULE: RoutineSchedule = { type: 'daily' };
+
+export const isRoutineDue = (template: RoutineTemplate, date: string): boolean => {
+  const { schedule } = template;
+  switch (schedule.type) {
+    case 'weekly':
+      return schedule.days.includes(getWeekday(date));
+    case 'interval': {
+      const elapsed = diffDays(schedule.startDate, date);
+      return elapsed >= 0 && elapsed % schedule.everyDays === 0;
+    }
+    default:
+      return true;
+  }
+};
+
+export const getDueRoutines = (templates: RoutineTemplate[], date: string): RoutineTemplate[] =>
+  templates.filter((template) => isRoutineDue(template, date));
+
+const normaliseSchedule = (value: unknown): RoutineSchedule => {
+  const schedule = value as Partial<Record<string, unknown>> | null;
+  if (schedule?.type === 'weekly' && Array.isArray(schedule.days)) {
+    const days = [...new Set(schedule.days.filter((day): day is number => Number.isInteger(day) && day >= 0 && day <= 6))];
+    return days.length > 0 ? { type: 'weekly', days: days.sort((a, b) => a - b) } : DAILY_SCHEDULE;
+  }
+  if (
+    schedule?.type === 'interval' &&
+    Number.isInteger(schedule.everyDays) &&
+    (schedule.everyDays as number) >= 1 &&
+    isValidDateString(schedule.startDate)
+  ) {
+    return { type: 'interval', everyDays: schedule.everyDays as number, startDate: schedule.startDate };
+  }
+  return DAILY_SCHEDULE;
+};
+
+// まだ記録の無い日の日次ログを、その日に実施予定だったルーティンで組み立てる
+export const createScheduledDayLog = (
+  date: string,
+  morningTemplates: RoutineTemplate[],
+  eveningTemplates: RoutineTemplate[]
+): DayLog => {
+  const toItems = (templates: RoutineTemplate[]): RoutineItem[] =>
+    getDueRoutines(templates, date).map((template) => ({
+      id: template.id,
+      templateId: template.id,
+      text: template.text,
+      completed: false,
+    }));
+  return {
+    date,
+    morning: { routines: toItems(morningTemplates), completed: false },
+    evening: { routines: toItems(eveningTemplates), completed: false },
+  };
+};
+
+// 保存されているルーティン定義を RoutineTemplate[] に揃える。
+// 旧形式（文字列の配列）は毎日実施として扱い、これまでの日次ログと同じ `${section}-${index}` を ID にする
+export const normaliseRoutineTemplates = (value: unknown, section: RoutineType): RoutineTemplate[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry, index): RoutineTemplate[] => {
+    if (typeof entry === 'string') {
+      return entry.trim() ? [{ id: `${section}-${index}`, text: entry.trim(), schedule: DAILY_SCHEDULE }] : [];
+    }
+    if (!entry || typeof entry !== 'object' || typeof entry.text !== 'string' || !entry.text.trim()) {
+      return [];
+    }
+    return [
+      {
+        id: typeof entry.id === 'string' && entry.id ? entry.id : `${section}-${index}`,
+        text: entry.text.trim(),
+        schedule: normaliseSchedule(entry.schedule),
+        ...(typeof entry.targetTime === 'string' && TIME_PATTERN.test(entry.targetTime)
+          ? { targetTime: entry.targetTime }
+          : {}),
+      },
+    ];
+  });
+};
+
+// 日次ログの項目がどのルーティン定義のものか（templateId を持たない古い項目は自身の ID）
+export const getRoutineTemplateId = (item: RoutineItem): string => item.templateId ?? item.id;
+
+// 旧形式の `${section}-${index}` などの ID を UUID に置き換える。replaced は 旧ID → 新ID
+export const assignStableTemplateIds = (
+  templates: RoutineTemplate[],
+  createId: (template: RoutineTemplate) => string
+): { templates: RoutineTemplate[]; replaced: Map<string, string> } => {
+  const replaced = new Map<string, string>();
+  const next = templates.map((template) => {
+    if (UUID_PATTERN.test(template.id)) return template;
+    const id = createId(template);
+    replaced.set(template.id, id);
+    return { ...template, id };
+  });
+  return { templates: next, replaced };
+};
+
+// 過去の日次ログの項目にルーティン定義を紐付ける。
+// 旧IDは並べ替えで入れ替わっている可能性があるので、まず名前で、次に旧IDで探す（1日の中で同じ定義は1項目まで）
+export const linkRoutineItems = (
+  routines: RoutineItem[],
+  templates: RoutineTemplate[],
+  replaced: Map<string, string>
+): RoutineItem[] => {
+  const claimed = new Set(routines.map((item) => item.templateId).filter(Boolean));
+  const byText = routines.map((item) => {
+    if (item.templateId) return undefined;
+    const template = templates.find((candidate) => candidate.text === item.text && !claimed.has(candidate.id));
+    if (template) claimed.add(template.id);
+    return template;
+  });
+
+  return routines.map((item, index) => {
+    if (item.templateId) {
+      const templateId = replaced.get(item.templateId);
+      return templateId ? { ...item, templateId } : item;
+    }
+    let template = byText[index];
+    if (!template) {
+      const legacyId = replaced.get(item.id) ?? item.id;
+      template = templates.find((candidate) => candidate.id === legacyId && !claimed.has(candidate.id));
+      if (template) claimed.add(template.id);
+    }
+    return template ? { ...item, templateId: template.id } : item;
+  });
+};
+
+// 日次ログには実施日のルーティンだけが入るので、その達成数で1日の達成度を判定する。
+// 予定がない日（scheduled = 0）は達成にも未達成にも数えない
+export const getDayCompletion = (log: DayLog) => {
+  const routines = [...log.morning.routines, ...log.evening.routines];
+  const scheduled = routines.length;
+  const completed = routines.filter((routine) => routine.completed).length;
+  return {
+    scheduled,
+    completed,
+    isFullyCompleted: scheduled > 0 && completed === scheduled,
+  };
+};
@@ -0,0 +1,121 @@
+// リクエストの内容を検証する小さなスキーマ。
+// スキーマは src/types の型を指定して定義するので、型を変えるとスキーマも合わせて直すことになる。
+// 検証できなかった箇所は path（例: dayLogs[3].evening.mood）付きで issues に積む
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// 値を検証し、揃えた値を返す。不正なときは issues に理由を積む（戻り値は使わない）
+export type Schema<T> = (value: unknown, path: string, issues: ValidationIssue[]) => T;
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const INVALID = undefined as never;
+
+const fail = (issues: ValidationIssue[], path: string, message: string): never => {
+  issues.push({ path: path || '(body)', message });
+  return INVALID;
+};
+
+const child = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+export const string =
+  (options: { min?: number; max?: number; pattern?: RegExp; trim?: boolean } = {}): Schema<string> =>
+  (value, path, issues) => {
+    if (typeof value !== 'string') return fail(issues, path, '文字列で指定してください');
+    const text = options.trim ? value.trim() : value;
+    if (options.min !== undefined && text.length < options.min) {
+      return fail(issues, path, options.min === 1 ? '入力してください' : `${options.min}文字以上で指定してください`);
+    }
+    if (options.max !== undefined && text.length > options.max) {
+      return fail(issues, path, `${options.max}文字以内で指定してください`);
+    }
+    if (options.pattern && !options.pattern.test(text)) return fail(issues, path, '形式が正しくありません');
+    return text;
+  };
+
+export const number =
+  (options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> =>
+  (value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return fail(issues, path, '数値で指定してください');
+    if (options.integer && !Number.isInteger(value)) return fail(issues, path, '整数で指定してください');
+    if (options.min !== undefined && value < options.min) return fail(issues, path, `${options.min}以上で指定してください`);
+    if (options.max !== undefined && value > options.max) return fail(issues, path, `${options.max}以下で指定してください`);
+    return value;
+  };
+
+export const boolean = (): Schema<boolean> => (value, path, issues) =>
+  typeof value === 'boolean' ? value : fail(issues, path, 'true か false で指定してください');
+
+export const oneOf =
+  <T extends string | number>(...values: T[]): Schema<T> =>
+  (value, path, issues) =>
+    values.includes(value as T) ? (value as T) : fail(issues, path, `${values.join(', ')} のいずれかで指定してください`);
+
+export const array =
+  <T>(item: Schema<T>, options: { max?: number } = {}): Schema<T[]> =>
+  (value, path, issues) => {
+    if (!Array.isArray(value)) return fail(issues, path, '配列で指定してください');
+    if (options.max !== undefined && value.length > options.max) {
+      return fail(issues, path, `${options.max}件以内で指定してください`);
+    }
+    return value.map((entry, index) => item(entry, child(path, index), issues));
+  };
+
+// 定義にないキーは取り除く。値が undefined になったキーは結果に含めない
+export const object =
+  <T>(shape: Shape<T>): Schema<T> =>
+  (value, path, issues) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return fail(issues, path, 'オブジェクトで指定してください');
+    }
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const parsed = shape[key](source[key], child(path, key), issues);
+      if (parsed !== undefined) result[key] = parsed;
+    }
+    return result as T;
+  };
+
+// 未指定（undefined / null）を許す
+export const optional =
+  <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path, issues) =>
+    value === undefined || value === null ? undefined : schema(value, path, issues);
+
+// 未指定（undefined / null）のときは fallback にする
+export const withDefault =
+  <T>(schema: Schema<T>, fallback: T): Schema<T> =>
+  (value, path, issues) =>
+    value === undefined || value === null ? fallback : schema(value, path, issues);
+
+// 既存の正規化関数（不正なら undefined を返すもの）をスキーマとして使う
+export const custom =
+  <T>(parse: (value: unknown) => T | undefined, message: string): Schema<T> =>
+  (value, path, issues) => {
+    const parsed = parse(value);
+    return parsed === undefined ? fail(issues, path, message) : parsed;
+  };
+
+// 受け取っても使わない項目（サーバーが管理する値など）を取り除く
+export const ignored = (): Schema<undefined> => () => undefined;
+
+// 型だけでは表せない条件（タイムゾーン名など）を加える
+export const refine =
+  <T>(schema: Schema<T>, check: (value: T) => boolean, message: string): Schema<T> =>
+  (value, path, issues) => {
+    const before = issues.length;
+    const parsed = schema(value, path, issues);
+    if (issues.length > before) return parsed;
+    return check(parsed) ? parsed : fail(issues, path, message);
+  };
+
+export const validate = <T>(schema: Schema<T>, value: unknown): { value: T | null; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  const parsed = schema(value, '', issues);
+  return issues.length > 0 ? { value: null, issues } : { value: parsed, issues };
+};
@@ -0,0 +1,112 @@
+import type {
+  CompletionRate,
+  DayLog,
+  Mood,
+  MoodCorrelation,
+  RoutineStats,
+  RoutineType,
+  StatsPeriod,
+  StatsSummary,
+  WeekdayStats,
+} from '../src/types';
+import { addDays, getWeekday } from './date.js';
+import { MOOD_SCALE } from './mood.js';
+import { getDayCompletion, getRoutineTemplateId } from './schedule.js';
+
+export const STATS_PERIODS: StatsPeriod[] = [7, 30, 90];
+export const DEFAULT_STATS_PERIOD: StatsPeriod = 30;
+
+const SECTIONS: RoutineType[] = ['morning', 'evening'];
+
+export const isStatsPeriod = (value: unknown): value is StatsPeriod =>
+  STATS_PERIODS.includes(Number(value) as StatsPeriod);
+
+const toRate = (scheduled: number, completed: number): CompletionRate => ({
+  scheduled,
+  completed,
+  rate: scheduled > 0 ? completed / scheduled : 0,
+});
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+// today を含む直近 period 日の日次ログを集計する。
+// 記録の無い日は何が予定されていたか分からないので、予定にも達成にも数えない
+export const computeStats = (logs: DayLog[], today: string, period: StatsPeriod): StatsSummary => {
+  const from = addDays(today, -(period - 1));
+  const inRange = logs
+    .filter((log) => log.date >= from && log.date <= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const byDate = new Map(inRange.map((log) => [log.date, log]));
+
+  // ルーティンごと（名前は最後に記録された時点のもの）
+  const routineTotals = new Map<string, RoutineStats>();
+  for (const log of inRange) {
+    for (const section of SECTIONS) {
+      for (const item of log[section].routines) {
+        const templateId = getRoutineTemplateId(item);
+        const key = `${section}:${templateId}`;
+        const current = routineTotals.get(key) ?? { templateId, section, text: item.text, ...toRate(0, 0) };
+        routineTotals.set(key, {
+          ...current,
+          text: item.text,
+          ...toRate(current.scheduled + 1, current.completed + (item.completed ? 1 : 0)),
+        });
+      }
+    }
+  }
+
+  // 曜日ごと（ルーティン単位の達成率）
+  const weekdayTotals = Array.from({ length: 7 }, () => ({ scheduled: 0, completed: 0 }));
+  for (const log of inRange) {
+    const { scheduled, completed } = getDayCompletion(log);
+    const totals = weekdayTotals[getWeekday(log.date)];
+    totals.scheduled += scheduled;
+    totals.completed += completed;
+  }
+  const weekdays: WeekdayStats[] = weekdayTotals.map((totals, weekday) => ({
+    weekday,
+    ...toRate(totals.scheduled, totals.completed),
+  }));
+  const ranked = weekdays.filter((stats) => stats.scheduled > 0).sort((a, b) => b.rate - a.rate);
+
+  // 朝・夜それぞれ、予定のあった日のうち全部達成できた日の割合
+  const sections = Object.fromEntries(
+    SECTIONS.map((section) => {
+      const days = inRange.filter((log) => log[section].routines.length > 0);
+      return [section, toRate(days.length, days.filter((log) => log[section].completed).length)];
+    })
+  ) as Record<RoutineType, CompletionRate>;
+
+  const moods = Object.fromEntries(MOOD_SCALE.map((mood) => [mood, 0])) as Record<Mood, number>;
+  for (const log of inRange) {
+    if (log.evening.mood) moods[log.evening.mood]++;
+  }
+
+  // 夜のルーティンの達成と翌日の気分の関係
+  const afterCompleted: number[] = [];
+  const afterMissed: number[] = [];
+  for (const log of inRange) {
+    const nextMood = byDate.get(addDays(log.date, 1))?.evening.mood;
+    if (log.evening.routines.length === 0 || !nextMood) continue;
+    (log.evening.completed ? afterCompleted : afterMissed).push(nextMood);
+  }
+  const moodCorrelation: MoodCorrelation = {
+    afterCompleted: { days: afterCompleted.length, averageScore: average(afterCompleted) },
+    afterMissed: { days: afterMissed.length, averageScore: average(afterMissed) },
+  };
+
+  return {
+    period,
+    from,
+    to: today,
+    loggedDays: inRange.length,
+    routines: [...routineTotals.values()].sort((a, b) => b.rate - a.rate || b.scheduled - a.scheduled),
+    weekdays,
+    bestWeekday: ranked.length > 0 ? ranked[0].weekday : null,
+    worstWeekday: ranked.length > 0 ? ranked[ranked.length - 1].weekday : null,
+    sections,
+    moods,
+    moodCorrelation,
+  };
+};
@@ -0,0 +1,113 @@
+import type { DayLog, RoutineType, StreakCount, StreakSummary } from '../src/types';
+import { addDays, diffDays } from './date.js';
+import { getDayCompletion } from './schedule.js';
+
+// 連続達成が FREEZE_EARN_INTERVAL 日に達するごとにフリーズを1つ獲得できる（所持は MAX_STREAK_FREEZES まで）
+export const FREEZE_EARN_INTERVAL = 7;
+export const MAX_STREAK_FREEZES = 2;
+
+type DayStatus = 'done' | 'missed' | 'skip';
+
+type StreakTarget = 'overall' | RoutineType;
+
+const getDayStatus = (log: DayLog | undefined, target: StreakTarget): DayStatus => {
+  if (!log) return 'missed';
+  if (target === 'overall') {
+    const { scheduled, isFullyCompleted } = getDayCompletion(log);
+    if (scheduled === 0) return 'skip';
+    return isFullyCompleted ? 'done' : 'missed';
+  }
+  const section = log[target];
+  if (section.routines.length === 0) return 'skip';
+  return section.completed ? 'done' : 'missed';
+};
+
+// 最初の記録日から today までを順に見て、現在と最長の連続日数を数える。
+// 予定のない日とフリーズで守られた日は途切れさせない（日数にも数えない）。今日はまだ未達成でも途切れない
+export const computeStreak = (
+  logs: DayLog[],
+  today: string,
+  target: StreakTarget,
+  frozenDates: string[] = []
+): StreakCount => {
+  if (logs.length === 0) return { current: 0, best: 0 };
+
+  const byDate = new Map(logs.map((log) => [log.date, log]));
+  const frozen = new Set(frozenDates);
+  const firstDate = logs.reduce((min, log) => (log.date < min ? log.date : min), logs[0].date);
+  const days = diffDays(firstDate, today);
+
+  let current = 0;
+  let best = 0;
+  for (let offset = 0; offset <= days; offset++) {
+    const date = addDays(firstDate, offset);
+    if (frozen.has(date)) continue;
+    const status = getDayStatus(byDate.get(date), target);
+    if (status === 'done') {
+      current++;
+      best = Math.max(best, current);
+    } else if (status === 'missed' && date !== today) {
+      current = 0;
+    }
+  }
+  return { current, best };
+};
+
+export const computeStreakSummary = (
+  logs: DayLog[],
+  today: string,
+  frozenDates: string[] = [],
+  freezesAvailable = 0
+): StreakSummary => ({
+  overall: computeStreak(logs, today, 'overall', frozenDates),
+  morning: computeStreak(logs, today, 'morning', frozenDates),
+  evening: computeStreak(logs, today, 'evening', frozenDates),
+  freezesAvailable,
+  frozenDates,
+});
+
+// 昨日から遡って続いている未達成の日（= フリーズで守る候補）を返す。
+// 手持ちのフリーズで埋めきれない場合や、その前に守るべき達成日がない場合は空
+export const findFreezableDates = (
+  logs: DayLog[],
+  today: string,
+  frozenDates: string[],
+  freezesAvailable: number
+): string[] => {
+  if (freezesAvailable <= 0 || logs.length === 0) return [];
+  const byDate = new Map(logs.map((log) => [log.date, log]));
+  const frozen = new Set(frozenDates);
+  const firstDate = logs.reduce((min, log) => (log.date < min ? log.date : min), logs[0].date);
+  const gap: string[] = [];
+
+  for (let date = addDays(today, -1); date >= firstDate; date = addDays(date, -1)) {
+    if (frozen.has(date)) continue;
+    const status = getDayStatus(byDate.get(date), 'overall');
+    if (status === 'done') return gap;
+    if (status === 'missed') {
+      gap.push(date);
+      if (gap.length > freezesAvailable) return [];
+    }
+  }
+  return [];
+};
+
+// 現在の連続記録のうち、フリーズを獲得する節目（7日目, 14日目...）になった日
+export const findFreezeMilestones = (logs: DayLog[], today: string, frozenDates: string[]): string[] => {
+  const { current } = computeStreak(logs, today, 'overall', frozenDates);
+  const milestones: string[] = [];
+  const byDate = new Map(logs.map((log) => [log.date, log]));
+  const frozen = new Set(frozenDates);
+
+  // 今日から遡りながら達成日を数え、節目の日付を拾う
+  let remaining = current;
+  let date = today;
+  while (remaining > 0 && diffDays(date, today) < 3650) {
+    if (!frozen.has(date) && getDayStatus(byDate.get(date), 'overall') === 'done') {
+      if (remaining % FREEZE_EARN_INTERVAL === 0) milestones.push(date);
+      remaining--;
+    }
+    date = addDays(date, -1);
+  }
+  return milestones.reverse();
+};
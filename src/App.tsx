@@ -1,21 +1,27 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { BrowserRouter as Router, Routes, Route, Link, useLocation, Navigate } from 'react-router-dom';
-import { loadData, saveData } from './utils/api';
+import { applyServerRecords, getStreaks, loadData, syncChanges, watchConnectivity } from './utils/api';
 import { AppData, UserProfile } from './types';
 import RoutineDashboard from './pages/RoutineDashboard';
 import CharacterView from './pages/CharacterView';
 import CalendarView from './pages/CalendarView';
+import StatsView from './pages/StatsView';
+import YearInPixels from './pages/YearInPixels';
 import MyPage from './pages/MyPage';
 import Register from './pages/Register';
+import LoginConfirm from './pages/LoginConfirm';
 import './App.css';
 
 function App() {
   const [data, setData] = useState<AppData | null>(null);
   const [loading, setLoading] = useState(true);
+  // サーバーと同期済みの状態（差分送信の基準）
+  const syncedDataRef = useRef<AppData | null>(null);
 
   useEffect(() => {
     // 初回データ読み込み
     loadData().then((loadedData) => {
+      syncedDataRef.current = loadedData;
       setData(loadedData);
       setLoading(false);
       console.log('[DeployCheck] App data loaded for user:', loadedData.user.id);
@@ -23,14 +29,32 @@ function App() {
   }, []);
 
   useEffect(() => {
-    // データが変更されたら保存
-    if (data) {
-      saveData(data).catch((error) => {
+    // データが変更されたら、前回同期した状態との差分だけを保存
+    const previous = syncedDataRef.current;
+    if (!data || !previous || previous === data) return;
+    syncedDataRef.current = data;
+    syncChanges(previous, data)
+      .then((records) => {
+        if (!records.character && records.dayLogs.length === 0) return;
+        // サーバー側の更新日時（他端末の変更と統合済み）を同期済みの状態と画面の両方に反映する
+        if (syncedDataRef.current) {
+          syncedDataRef.current = applyServerRecords(syncedDataRef.current, data, records);
+        }
+        setData((current) => (current ? applyServerRecords(current, data, records) : current));
+      })
+      .catch((error) => {
         console.error('Failed to save data:', error);
       });
-    }
   }, [data]);
 
+  useEffect(() => {
+    // オフライン中に溜まった変更を再送し、最新のデータで置き換える
+    return watchConnectivity((latest) => {
+      syncedDataRef.current = latest;
+      setData(latest);
+    });
+  }, []);
+
   const updateData = (updater: (prev: AppData) => AppData) => {
     setData((prev) => {
       if (!prev) return prev;
@@ -39,6 +63,14 @@ function App() {
     });
   };
 
+  // 専用のAPI（ルーティンのイベント等）で保存済みの変更を反映する。差分同期の対象にはしない
+  const commitData = (updater: (prev: AppData) => AppData) => {
+    if (syncedDataRef.current) {
+      syncedDataRef.current = updater(syncedDataRef.current);
+    }
+    updateData(updater);
+  };
+
   const handleProfileUpdated = (user: UserProfile) => {
     setData((prev) => {
       if (!prev) return prev;
@@ -50,6 +82,8 @@ function App() {
   };
 
   const handleRegistered = (nextData: AppData) => {
+    // サーバーから取得し直したデータなので同期済みとして扱う
+    syncedDataRef.current = nextData;
     setData(nextData);
   };
 
@@ -69,6 +103,7 @@ function App() {
       <AppShell
         data={data}
         updateData={updateData}
+        commitData={commitData}
         onProfileUpdated={handleProfileUpdated}
         onRegistered={handleRegistered}
       />
@@ -81,11 +116,12 @@ export default App;
 interface AppShellProps {
   data: AppData;
   updateData: (updater: (prev: AppData) => AppData) => void;
+  commitData: (updater: (prev: AppData) => AppData) => void;
   onProfileUpdated: (user: UserProfile) => void;
   onRegistered: (data: AppData) => void;
 }
 
-function AppShell({ data, updateData, onProfileUpdated, onRegistered }: AppShellProps) {
+function AppShell({ data, updateData, commitData, onProfileUpdated, onRegistered }: AppShellProps) {
   const location = useLocation();
   const isCharacterRoute = location.pathname.startsWith('/character');
   const isRegistered = data.user.isRegistered;
@@ -113,6 +149,10 @@ function AppShell({ data, updateData, onProfileUpdated, onRegistered }: AppShell
             <span className="nav-icon">📅</span>
             <span className="nav-text">カレンダー</span>
           </Link>
+          <Link to="/stats" className="nav-link">
+            <span className="nav-icon">📊</span>
+            <span className="nav-text">ふりかえり</span>
+          </Link>
           <Link to="/mypage" className="nav-link">
             <span className="nav-icon">👤</span>
             <span className="nav-text">マイ</span>
@@ -125,18 +165,22 @@ function AppShell({ data, updateData, onProfileUpdated, onRegistered }: AppShell
           {!isRegistered && (
             <>
               <Route path="/register" element={<Register data={data} onRegistered={onRegistered} />} />
+              <Route path="/login" element={<LoginConfirm />} />
               <Route path="*" element={<Navigate to="/register" replace />} />
             </>
           )}
           {isRegistered && (
             <>
-              <Route path="/" element={<RoutineDashboard data={data} updateData={updateData} initialSection="morning" />} />
-              <Route path="/evening" element={<RoutineDashboard data={data} updateData={updateData} initialSection="evening" />} />
-              <Route path="/routine" element={<RoutineDashboard data={data} updateData={updateData} initialSection="all" />} />
-              <Route path="/character" element={<CharacterView character={data.character} user={data.user} />} />
-              <Route path="/calendar" element={<CalendarView dayLogs={data.dayLogs} />} />
-              <Route path="/mypage" element={<MyPage data={data} updateData={updateData} onProfileUpdated={onProfileUpdated} />} />
+              <Route path="/" element={<RoutineDashboard data={data} updateData={updateData} commitData={commitData} initialSection="morning" />} />
+              <Route path="/evening" element={<RoutineDashboard data={data} updateData={updateData} commitData={commitData} initialSection="evening" />} />
+              <Route path="/routine" element={<RoutineDashboard data={data} updateData={updateData} commitData={commitData} initialSection="all" />} />
+              <Route path="/character" element={<CharacterView character={data.character} user={data.user} streaks={getStreaks(data)} />} />
+              <Route path="/calendar" element={<CalendarView data={data} commitData={commitData} />} />
+              <Route path="/stats" element={<StatsView data={data} />} />
+              <Route path="/stats/year" element={<YearInPixels data={data} commitData={commitData} />} />
+              <Route path="/mypage" element={<MyPage data={data} updateData={updateData} commitData={commitData} onProfileUpdated={onProfileUpdated} onImported={onRegistered} />} />
               <Route path="/register" element={<Navigate to="/" replace />} />
+              <Route path="/login" element={<LoginConfirm />} />
             </>
           )}
         </Routes>
@@ -0,0 +1,138 @@
+import { ChangeEvent, useState } from 'react';
+import { BackupFile } from '../../shared/export';
+import { ImportMode, ImportSummary, parseBackup } from '../../shared/import';
+import { AppData } from '../types';
+import { importBackup } from '../utils/api';
+import './BackupImport.css';
+
+interface BackupImportProps {
+  modes: ImportMode[]; // 選べる取り込み方（先頭が初期値）
+  onImported: (data: AppData) => void;
+}
+
+const MODE_LABELS: Record<ImportMode, { label: string; description: string }> = {
+  merge: { label: '追加する', description: '記録の無い日だけをバックアップから追加します' },
+  replace: { label: '置き換える', description: '記録・設定・キャラクターの見た目をバックアップの内容にします（レベルは変わりません）' },
+};
+
+// JSON バックアップを選び、変更内容を確認してから取り込む
+export default function BackupImport({ modes, onImported }: BackupImportProps) {
+  const [mode, setMode] = useState<ImportMode>(modes[0]);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const preview = async (nextBackup: BackupFile, nextMode: ImportMode) => {
+    setBusy(true);
+    setError(null);
+    setSummary(null);
+    try {
+      setSummary((await importBackup(nextBackup, nextMode, true)).summary);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setBackup(null);
+    setSummary(null);
+    setMessage(null);
+    let parsed: ReturnType<typeof parseBackup>;
+    try {
+      parsed = parseBackup(JSON.parse(await file.text()));
+    } catch (err) {
+      setError('JSON として読み込めませんでした');
+      return;
+    }
+    const nextBackup = parsed.backup;
+    if (!nextBackup) {
+      setError(parsed.errors.join('\n'));
+      return;
+    }
+    setBackup(nextBackup);
+    await preview(nextBackup, mode);
+  };
+
+  const changeMode = (nextMode: ImportMode) => {
+    setMode(nextMode);
+    if (backup) preview(backup, nextMode);
+  };
+
+  const confirmImport = async () => {
+    if (!backup) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const { data } = await importBackup(backup, mode, false);
+      setBackup(null);
+      setSummary(null);
+      setMessage('バックアップを取り込みました！');
+      if (data) onImported(data);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="backup-import">
+      {modes.length > 1 && (
+        <div className="routine-filter">
+          {modes.map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={`routine-filter-button ${mode === option ? 'active' : ''}`}
+              onClick={() => changeMode(option)}
+              disabled={busy}
+            >
+              {MODE_LABELS[option].label}
+            </button>
+          ))}
+        </div>
+      )}
+      <p className="backup-import-note">{MODE_LABELS[mode].description}</p>
+
+      <label className="button backup-import-file">
+        バックアップファイル（JSON）を選ぶ
+        <input type="file" accept="application/json,.json" onChange={handleFileChange} disabled={busy} hidden />
+      </label>
+
+      {busy && !summary && <p className="backup-import-note">確認中...</p>}
+
+      {summary && (
+        <div className="backup-import-summary">
+          <p>
+            {summary.days}日分の記録
+            {summary.from && summary.to && `（${summary.from} 〜 ${summary.to}）`}
+          </p>
+          <ul>
+            <li>追加される日: {summary.addedDays}日</li>
+            {summary.mode === 'merge' && <li>既にあるため変更しない日: {summary.keptDays}日</li>}
+            {summary.mode === 'replace' && <li>上書きされる日: {summary.overwrittenDays}日</li>}
+            {summary.mode === 'replace' && <li>削除される日: {summary.removedDays}日</li>}
+            <li>
+              キャラクター: Lv.{summary.characterLevel.current}
+              {summary.characterLevel.next !== summary.characterLevel.current && ` → Lv.${summary.characterLevel.next}`}
+            </li>
+          </ul>
+          <button className="button" onClick={confirmImport} disabled={busy}>
+            {busy ? '取り込み中...' : 'この内容で取り込む'}
+          </button>
+        </div>
+      )}
+
+      {message && <div className="bonus-message">{message}</div>}
+      {error && <div className="bonus-message backup-import-error">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import './BarChart.css';
+
+export interface BarChartItem {
+  key: string;
+  label: string;
+  value: number;
+  title?: string;
+  highlight?: 'best' | 'worst';
+}
+
+interface BarChartProps {
+  items: BarChartItem[];
+  orientation?: 'vertical' | 'horizontal';
+  max?: number;
+  formatValue?: (value: number) => string;
+}
+
+const WIDTH = 320;
+const ROW_HEIGHT = 28;
+const LABEL_WIDTH = 116;
+const VALUE_WIDTH = 44;
+const VERTICAL_HEIGHT = 160;
+const VERTICAL_LABEL_HEIGHT = 20;
+const MAX_LABEL_LENGTH = 9;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const truncate = (label: string) =>
+  label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH)}…` : label;
+
+// 達成率などを SVG の棒グラフで描く（外部のグラフサービスは使わない）
+export default function BarChart({ items, orientation = 'horizontal', max = 1, formatValue = formatPercent }: BarChartProps) {
+  const scale = (value: number) => (max > 0 ? Math.min(value / max, 1) : 0);
+
+  if (orientation === 'vertical') {
+    const slot = WIDTH / Math.max(items.length, 1);
+    const barWidth = Math.min(slot * 0.6, 32);
+    const chartHeight = VERTICAL_HEIGHT - VERTICAL_LABEL_HEIGHT * 2;
+
+    return (
+      <svg className="bar-chart" viewBox={`0 0 ${WIDTH} ${VERTICAL_HEIGHT}`} role="img">
+        {items.map((item, index) => {
+          const height = scale(item.value) * chartHeight;
+          const x = slot * index + (slot - barWidth) / 2;
+          const y = VERTICAL_LABEL_HEIGHT + chartHeight - height;
+          return (
+            <g key={item.key}>
+              <title>{item.title ?? `${item.label}: ${formatValue(item.value)}`}</title>
+              <rect className="bar-chart-track" x={x} y={VERTICAL_LABEL_HEIGHT} width={barWidth} height={chartHeight} rx={6} />
+              <rect
+                className={`bar-chart-bar ${item.highlight ? `bar-chart-bar--${item.highlight}` : ''}`}
+                x={x}
+                y={y}
+                width={barWidth}
+                height={height}
+                rx={6}
+              />
+              <text className="bar-chart-value" x={x + barWidth / 2} y={y - 6} textAnchor="middle">
+                {formatValue(item.value)}
+              </text>
+              <text className="bar-chart-label" x={x + barWidth / 2} y={VERTICAL_HEIGHT - 4} textAnchor="middle">
+                {item.label}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    );
+  }
+
+  const barArea = WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+  return (
+    <svg className="bar-chart" viewBox={`0 0 ${WIDTH} ${Math.max(items.length, 1) * ROW_HEIGHT}`} role="img">
+      {items.map((item, index) => {
+        const y = index * ROW_HEIGHT;
+        return (
+          <g key={item.key}>
+            <title>{item.title ?? `${item.label}: ${formatValue(item.value)}`}</title>
+            <text className="bar-chart-label" x={0} y={y + ROW_HEIGHT / 2 + 4}>
+              {truncate(item.label)}
+            </text>
+            <rect className="bar-chart-track" x={LABEL_WIDTH} y={y + 6} width={barArea} height={ROW_HEIGHT - 12} rx={6} />
+            <rect
+              className={`bar-chart-bar ${item.highlight ? `bar-chart-bar--${item.highlight}` : ''}`}
+              x={LABEL_WIDTH}
+              y={y + 6}
+              width={scale(item.value) * barArea}
+              height={ROW_HEIGHT - 12}
+              rx={6}
+            />
+            <text className="bar-chart-value" x={WIDTH} y={y + ROW_HEIGHT / 2 + 4} textAnchor="end">
+              {formatValue(item.value)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
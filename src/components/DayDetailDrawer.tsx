@@ -0,0 +1,117 @@
+import { useEffect } from 'react';
+import { MOOD_OPTIONS, MOOD_TAGS } from '../../shared/mood';
+import { BACKFILL_EXPERIENCE_RATE } from '../../shared/routineEvents';
+import { getDayCompletion } from '../../shared/schedule';
+import { DayLog, RoutineType } from '../types';
+import './DayDetailDrawer.css';
+
+const SECTIONS: { key: RoutineType; label: string }[] = [
+  { key: 'morning', label: '🌅 朝ルーティン' },
+  { key: 'evening', label: '🌙 夜ルーティン' },
+];
+
+interface DayDetailDrawerProps {
+  log: DayLog;
+  isToday: boolean;
+  editable: boolean;
+  frozen: boolean;
+  onToggleRoutine: (section: RoutineType, routineId: string) => void;
+  onClose: () => void;
+}
+
+// カレンダーで選んだ日の記録。猶予期間内の日はチェックを付け直せる
+export default function DayDetailDrawer({ log, isToday, editable, frozen, onToggleRoutine, onClose }: DayDetailDrawerProps) {
+  const { scheduled, completed } = getDayCompletion(log);
+  const { mood, tags, journal } = log.evening;
+  const [year, month, day] = log.date.split('-').map(Number);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="day-detail-backdrop" onClick={onClose}>
+      <aside
+        className="day-detail-drawer"
+        role="dialog"
+        aria-label={`${month}月${day}日の記録`}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <header className="day-detail-header">
+          <div>
+            <h2 className="day-detail-title">
+              {year}年{month}月{day}日
+            </h2>
+            <span className="day-detail-summary">
+              {scheduled > 0 ? `${completed} / ${scheduled} 達成` : '予定のルーティンはありません'}
+              {frozen && ' ・ 🧊 フリーズで守られた日'}
+            </span>
+          </div>
+          <button type="button" className="day-detail-close" onClick={onClose} aria-label="閉じる">
+            ×
+          </button>
+        </header>
+
+        {editable && !isToday && (
+          <p className="day-detail-note">
+            付け忘れたチェックを記録できます（獲得できる経験値は{BACKFILL_EXPERIENCE_RATE * 100}%になります）
+          </p>
+        )}
+
+        {SECTIONS.map(({ key, label }) => (
+          <section key={key} className="day-detail-section">
+            <h3 className="day-detail-section-title">
+              {label}
+              {log[key].completed && <span className="day-detail-badge">完了</span>}
+            </h3>
+            {log[key].routines.length === 0 ? (
+              <p className="day-detail-empty">記録はありません</p>
+            ) : (
+              <ul className="routine-list">
+                {log[key].routines.map((routine) => (
+                  <li key={routine.id} className={`routine-item ${routine.completed ? 'completed' : ''}`}>
+                    <input
+                      type="checkbox"
+                      className="routine-checkbox"
+                      checked={routine.completed}
+                      disabled={!editable}
+                      onChange={() => onToggleRoutine(key, routine.id)}
+                    />
+                    <span className="routine-text">{routine.text}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        ))}
+
+        <section className="day-detail-section">
+          <h3 className="day-detail-section-title">気分</h3>
+          <p className="day-detail-mood">
+            {mood ? `${MOOD_OPTIONS[mood].emoji} ${MOOD_OPTIONS[mood].label}（${mood} / 5）` : '記録はありません'}
+          </p>
+          {tags && (
+            <ul className="day-detail-tags">
+              {MOOD_TAGS.filter(({ tag }) => tags[tag]).map(({ tag, label }) => (
+                <li key={tag}>
+                  {label}: {tags[tag]} / 5
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {journal && (
+          <section className="day-detail-section">
+            <h3 className="day-detail-section-title">ふりかえり</h3>
+            <p className="day-detail-journal">{journal}</p>
+          </section>
+        )}
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { ChangeEvent, useState } from 'react';
+import { buildHabitImport, HabitCsvFormat, HabitMapping, ParsedHabitCsv, parseHabitCsv } from '../../shared/habitImport';
+import { AppData, RoutineType } from '../types';
+import { importDayLogs, withDayLog } from '../utils/api';
+import { createTemplateId } from '../utils/id';
+import './BackupImport.css';
+
+interface HabitImportProps {
+  data: AppData;
+  updateData: (updater: (prev: AppData) => AppData) => void;
+  commitData: (updater: (prev: AppData) => AppData) => void;
+}
+
+const FORMAT_LABELS: Record<HabitCsvFormat, string> = {
+  loop: 'Loop Habit Tracker（Checkmarks.csv）',
+  generic: '日付・習慣・達成の CSV',
+};
+
+// 他の習慣アプリの CSV を読み込み、習慣ごとに朝・夜のどちらのルーティンにするかを選んで取り込む
+export default function HabitImport({ data, updateData, commitData }: HabitImportProps) {
+  const [parsed, setParsed] = useState<ParsedHabitCsv | null>(null);
+  const [mapping, setMapping] = useState<HabitMapping>({});
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+    const result = parseHabitCsv(await file.text());
+    setParsed(result.parsed);
+    setError(result.error);
+    if (result.parsed) {
+      // 同じ名前のルーティンがあればその時間帯、無ければ朝を初期値にする
+      const eveningTexts = new Set(data.defaultEveningRoutines.map((template) => template.text));
+      setMapping(
+        Object.fromEntries(
+          result.parsed.habits.map((habit) => [habit, eveningTexts.has(habit) ? 'evening' : 'morning'])
+        )
+      );
+    }
+  };
+
+  const confirmImport = async () => {
+    if (!parsed) return;
+    const { templates, dayLogs } = buildHabitImport(
+      parsed,
+      mapping,
+      { morning: data.defaultMorningRoutines, evening: data.defaultEveningRoutines },
+      createTemplateId
+    );
+    if (dayLogs.length === 0) {
+      setError('取り込む習慣を1つ以上選んでください');
+      return;
+    }
+
+    setImporting(true);
+    setError(null);
+    try {
+      const saved = await importDayLogs(dayLogs);
+      commitData((prev) => saved.reduce(withDayLog, prev));
+      updateData((prev) => ({
+        ...prev,
+        defaultMorningRoutines: templates.morning,
+        defaultEveningRoutines: templates.evening,
+      }));
+      setParsed(null);
+      setMessage(`${saved.length}日分の記録を取り込みました！`);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="backup-import">
+      <p className="backup-import-note">
+        Loop Habit Tracker の Checkmarks.csv、または date, habit, done の3列の CSV を取り込めます。
+        既に記録のある日は、まだ無いルーティンだけを追加します（経験値は増えません）
+      </p>
+
+      <label className="button backup-import-file">
+        CSV ファイルを選ぶ
+        <input type="file" accept="text/csv,.csv" onChange={handleFileChange} disabled={importing} hidden />
+      </label>
+
+      {parsed && (
+        <div className="backup-import-summary">
+          <p>
+            {FORMAT_LABELS[parsed.format]}（{parsed.from} 〜 {parsed.to}）
+          </p>
+          {parsed.habits.map((habit) => (
+            <div key={habit} className="input-group">
+              <label className="input-label">{habit}</label>
+              <select
+                className="input-field"
+                value={mapping[habit] ?? ''}
+                onChange={(e) =>
+                  setMapping({ ...mapping, [habit]: (e.target.value || null) as RoutineType | null })
+                }
+              >
+                <option value="morning">🌅 朝のルーティン</option>
+                <option value="evening">🌙 夜のルーティン</option>
+                <option value="">取り込まない</option>
+              </select>
+            </div>
+          ))}
+          <button className="button" onClick={confirmImport} disabled={importing}>
+            {importing ? '取り込み中...' : 'この内容で取り込む'}
+          </button>
+        </div>
+      )}
+
+      {message && <div className="bonus-message">{message}</div>}
+      {error && <div className="bonus-message backup-import-error">{error}</div>}
+    </div>
+  );
+}
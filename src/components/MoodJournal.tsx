@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { MAX_JOURNAL_LENGTH, MOOD_OPTIONS, MOOD_SCALE, MOOD_TAGS } from '../../shared/mood';
+import { DayLog, Mood, MoodTag } from '../types';
+import './MoodJournal.css';
+
+type JournalPatch = Partial<Pick<DayLog['evening'], 'mood' | 'tags' | 'journal'>>;
+
+interface MoodJournalProps {
+  evening: DayLog['evening'];
+  onChange: (patch: JournalPatch) => void;
+}
+
+// 夜の気分（5段階）・タグ・ふりかえりの入力欄
+export default function MoodJournal({ evening, onChange }: MoodJournalProps) {
+  const [journal, setJournal] = useState(evening.journal ?? '');
+
+  useEffect(() => {
+    setJournal(evening.journal ?? '');
+  }, [evening.journal]);
+
+  // 同じ値をもう一度選ぶと解除する
+  const selectTag = (tag: MoodTag, value: Mood) => {
+    const tags = { ...evening.tags };
+    if (tags[tag] === value) {
+      delete tags[tag];
+    } else {
+      tags[tag] = value;
+    }
+    onChange({ tags: Object.keys(tags).length > 0 ? tags : undefined });
+  };
+
+  // 入力中は保存せず、欄を離れたときにまとめて保存する
+  const saveJournal = () => {
+    const next = journal.trim() ? journal : undefined;
+    if (next !== evening.journal) onChange({ journal: next });
+  };
+
+  return (
+    <div className="mood-journal">
+      <div className="mood-selector mood-selector--scale">
+        {MOOD_SCALE.map((mood) => (
+          <button
+            key={mood}
+            type="button"
+            className={`mood-button ${evening.mood === mood ? 'selected' : ''}`}
+            onClick={() => onChange({ mood: evening.mood === mood ? undefined : mood })}
+            title={MOOD_OPTIONS[mood].label}
+          >
+            {MOOD_OPTIONS[mood].emoji}
+          </button>
+        ))}
+      </div>
+
+      <div className="mood-tags">
+        {MOOD_TAGS.map(({ tag, label, low, high }) => (
+          <div key={tag} className="mood-tag-row">
+            <span className="mood-tag-label">{label}</span>
+            <div className="mood-tag-scale">
+              <span className="mood-tag-hint">{low}</span>
+              {MOOD_SCALE.map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  className={`mood-tag-dot ${evening.tags?.[tag] === value ? 'selected' : ''}`}
+                  onClick={() => selectTag(tag, value)}
+                  aria-label={`${label} ${value}`}
+                />
+              ))}
+              <span className="mood-tag-hint">{high}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <textarea
+        className="input-field mood-journal-text"
+        value={journal}
+        maxLength={MAX_JOURNAL_LENGTH}
+        onChange={(e) => setJournal(e.target.value)}
+        onBlur={saveJournal}
+        placeholder="今日のふりかえり（任意）"
+        rows={3}
+      />
+    </div>
+  );
+}
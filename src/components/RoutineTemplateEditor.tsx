@@ -0,0 +1,140 @@
+import { RoutineSchedule, RoutineTemplate } from '../types';
+import { createTemplateId } from '../utils/id';
+import './RoutineTemplateEditor.css';
+
+interface RoutineTemplateEditorProps {
+  value: RoutineTemplate[];
+  today: string;
+  onChange: (value: RoutineTemplate[]) => void;
+  onSave: () => void;
+}
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+const SCHEDULE_OPTIONS: { label: string; value: RoutineSchedule['type'] }[] = [
+  { label: '毎日', value: 'daily' },
+  { label: '曜日を指定', value: 'weekly' },
+  { label: '○日ごと', value: 'interval' },
+];
+
+export default function RoutineTemplateEditor({ value, today, onChange, onSave }: RoutineTemplateEditorProps) {
+  const update = (index: number, patch: Partial<RoutineTemplate>) => {
+    onChange(value.map((template, i) => (i === index ? { ...template, ...patch } : template)));
+  };
+
+  const changeScheduleType = (index: number, type: RoutineSchedule['type']) => {
+    const current = value[index].schedule;
+    if (current.type === type) return;
+    // 間隔指定は今日を起点にする
+    const schedule: RoutineSchedule =
+      type === 'weekly'
+        ? { type, days: [0, 1, 2, 3, 4, 5, 6] }
+        : type === 'interval'
+          ? { type, everyDays: 2, startDate: today }
+          : { type };
+    update(index, { schedule });
+  };
+
+  const toggleWeekday = (index: number, day: number) => {
+    const { schedule } = value[index];
+    if (schedule.type !== 'weekly') return;
+    const days = schedule.days.includes(day)
+      ? schedule.days.filter((d) => d !== day)
+      : [...schedule.days, day].sort((a, b) => a - b);
+    update(index, { schedule: { ...schedule, days } });
+  };
+
+  const add = () => {
+    onChange([...value, { id: createTemplateId(), text: '', schedule: { type: 'daily' } }]);
+  };
+
+  const remove = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="routine-editor">
+      {value.map((template, index) => (
+        <div key={template.id} className="routine-template">
+          <div className="routine-editor-item">
+            <input
+              type="text"
+              className="routine-editor-input"
+              value={template.text}
+              onChange={(e) => update(index, { text: e.target.value })}
+              placeholder="ルーティン項目を入力"
+            />
+            <button className="delete-button" onClick={() => remove(index)}>
+              削除
+            </button>
+          </div>
+          <div className="routine-template-schedule">
+            <select
+              className="routine-template-select"
+              value={template.schedule.type}
+              onChange={(e) => changeScheduleType(index, e.target.value as RoutineSchedule['type'])}
+            >
+              {SCHEDULE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+
+            {template.schedule.type === 'weekly' && (
+              <div className="routine-template-weekdays">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    className={`routine-template-weekday ${
+                      template.schedule.type === 'weekly' && template.schedule.days.includes(day) ? 'active' : ''
+                    }`}
+                    onClick={() => toggleWeekday(index, day)}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {template.schedule.type === 'interval' && (
+              <label className="routine-template-interval">
+                <input
+                  type="number"
+                  min={1}
+                  max={30}
+                  className="routine-template-number"
+                  value={template.schedule.everyDays}
+                  onChange={(e) =>
+                    template.schedule.type === 'interval' &&
+                    update(index, {
+                      schedule: { ...template.schedule, everyDays: Math.max(1, Number(e.target.value) || 1) },
+                    })
+                  }
+                />
+                日ごと
+              </label>
+            )}
+
+            <label className="routine-template-time">
+              目安
+              <input
+                type="time"
+                className="routine-template-select"
+                value={template.targetTime ?? ''}
+                onChange={(e) => update(index, { targetTime: e.target.value || undefined })}
+              />
+            </label>
+          </div>
+        </div>
+      ))}
+      <button className="add-button" onClick={add}>
+        + 追加
+      </button>
+      <button className="button" onClick={onSave} style={{ marginTop: '1rem' }}>
+        保存
+      </button>
+    </div>
+  );
+}
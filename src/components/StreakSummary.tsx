@@ -0,0 +1,48 @@
+import { FREEZE_EARN_INTERVAL } from '../../shared/streaks';
+import { StreakSummary as StreakSummaryData } from '../types';
+import './StreakSummary.css';
+
+const FREEZE_HINT = `${FREEZE_EARN_INTERVAL}日連続で達成するごとに獲得。達成できなかった日を1日分守ります`;
+
+interface StreakSummaryProps {
+  streaks: StreakSummaryData;
+  compact?: boolean;
+}
+
+export default function StreakSummary({ streaks, compact = false }: StreakSummaryProps) {
+  if (compact) {
+    return (
+      <div className="streak-summary streak-summary--compact">
+        <span className="streak-summary-chip">🔥 {streaks.overall.current}日連続</span>
+        {streaks.freezesAvailable > 0 && (
+          <span className="streak-summary-chip" title="連続記録を1日分守るフリーズ">
+            🧊 ×{streaks.freezesAvailable}
+          </span>
+        )}
+      </div>
+    );
+  }
+
+  const items = [
+    { label: '🔥 全体', count: streaks.overall },
+    { label: '🌅 朝', count: streaks.morning },
+    { label: '🌙 夜', count: streaks.evening },
+  ];
+
+  return (
+    <div className="streak-summary">
+      {items.map((item) => (
+        <div key={item.label} className="streak-summary-item">
+          <span className="streak-summary-label">{item.label}</span>
+          <span className="streak-summary-value">{item.count.current}日</span>
+          <span className="streak-summary-best">最長 {item.count.best}日</span>
+        </div>
+      ))}
+      <div className="streak-summary-item" title={FREEZE_HINT}>
+        <span className="streak-summary-label">🧊 フリーズ</span>
+        <span className="streak-summary-value">{streaks.freezesAvailable}</span>
+        <span className="streak-summary-best">{streaks.frozenDates.length}日守った</span>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,29 @@
-import { useState } from 'react';
-import { DayLog } from '../types';
+import { useEffect, useState } from 'react';
+import { addDays, formatDateKey, getToday } from '../../shared/date';
+import { MOOD_OPTIONS, MOOD_SCALE } from '../../shared/mood';
+import { canEditDate, RoutineEvent } from '../../shared/routineEvents';
+import { getDayCompletion } from '../../shared/schedule';
+import DayDetailDrawer from '../components/DayDetailDrawer';
+import { commitRoutineEvent, getDayLog, loadDayLogsForMonth, mergeDayLogs } from '../utils/api';
+import { AppData, DayLog, RoutineType } from '../types';
 import './CalendarView.css';
 
+// セルの色分け（達成度 / その日の気分）
+type CalendarLayer = 'completion' | 'mood';
+
 interface CalendarViewProps {
-  dayLogs: DayLog[];
+  data: AppData;
+  commitData: (updater: (prev: AppData) => AppData) => void;
 }
 
-export default function CalendarView({ dayLogs }: CalendarViewProps) {
+export default function CalendarView({ data, commitData }: CalendarViewProps) {
+  const { dayLogs, streaks } = data;
+  const { timeZone, dayStartTime, backfillGraceDays } = data.settings;
   const [currentDate, setCurrentDate] = useState(new Date());
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [layer, setLayer] = useState<CalendarLayer>('completion');
+  // セルは端末のローカル日付で並べ、「今日」は設定したタイムゾーンと1日の始まりの時刻で判定する
+  const todayStr = getToday(timeZone, dayStartTime);
 
   const year = currentDate.getFullYear();
   const month = currentDate.getMonth();
@@ -20,6 +34,20 @@ export default function CalendarView({ dayLogs }: CalendarViewProps) {
   const daysInMonth = lastDay.getDate();
   const startingDayOfWeek = firstDay.getDay();
 
+  // 表示中のカレンダーに含まれる月（前後の月のはみ出し分も含む）の記録を読み込む。未来の月は取得しない
+  // 取得済みの月は記録済みになるので、月を移動した後に届いた結果も捨てずに反映する
+  useEffect(() => {
+    const currentMonth = todayStr.slice(0, 7);
+    const months = [month - 1, month, month + 1]
+      .map((m) => new Date(year, m, 1))
+      .filter((date) => formatDateKey(date).slice(0, 7) <= currentMonth);
+
+    Promise.all(months.map((date) => loadDayLogsForMonth(date.getFullYear(), date.getMonth()))).then((results) => {
+      const logs = results.flat();
+      if (logs.length > 0) commitData((prev) => mergeDayLogs(prev, logs));
+    });
+  }, [year, month]);
+
   // カレンダーの日付配列を生成
   const calendarDays: Array<{ date: Date; log?: DayLog; isCurrentMonth: boolean }> = [];
 
@@ -27,7 +55,7 @@ export default function CalendarView({ dayLogs }: CalendarViewProps) {
   const prevMonthLastDay = new Date(year, month, 0).getDate();
   for (let i = startingDayOfWeek - 1; i >= 0; i--) {
     const date = new Date(year, month - 1, prevMonthLastDay - i);
-    const dateStr = date.toISOString().split('T')[0];
+    const dateStr = formatDateKey(date);
     const log = dayLogs.find((l) => l.date === dateStr);
     calendarDays.push({ date, log, isCurrentMonth: false });
   }
@@ -35,7 +63,7 @@ export default function CalendarView({ dayLogs }: CalendarViewProps) {
   // 今月の日付を追加
   for (let day = 1; day <= daysInMonth; day++) {
     const date = new Date(year, month, day);
-    const dateStr = date.toISOString().split('T')[0];
+    const dateStr = formatDateKey(date);
     const log = dayLogs.find((l) => l.date === dateStr);
     calendarDays.push({ date, log, isCurrentMonth: true });
   }
@@ -44,26 +72,47 @@ export default function CalendarView({ dayLogs }: CalendarViewProps) {
   const remainingDays = 42 - calendarDays.length;
   for (let day = 1; day <= remainingDays; day++) {
     const date = new Date(year, month + 1, day);
-    const dateStr = date.toISOString().split('T')[0];
+    const dateStr = formatDateKey(date);
     const log = dayLogs.find((l) => l.date === dateStr);
     calendarDays.push({ date, log, isCurrentMonth: false });
   }
 
   const getDayStatus = (day: { date: Date; log?: DayLog }) => {
-    const dateStr = day.date.toISOString().split('T')[0];
-    const todayStr = today.toISOString().split('T')[0];
+    const dateStr = formatDateKey(day.date);
 
+    if (layer === 'mood') return day.log?.evening.mood ? 'mood' : 'empty';
     if (dateStr === todayStr) return 'today';
     if (!day.log) return 'empty';
 
-    const morningCompleted = day.log.morning.completed;
-    const eveningCompleted = day.log.evening.completed;
+    // 実施予定だったルーティンの達成数で判定する
+    const { completed, isFullyCompleted } = getDayCompletion(day.log);
 
-    if (morningCompleted && eveningCompleted) return 'completed';
-    if (morningCompleted || eveningCompleted) return 'partial';
+    if (isFullyCompleted) return 'completed';
+    if (completed > 0) return 'partial';
     return 'empty';
   };
 
+  // 未来の日は開かない
+  const handleSelectDay = (dateStr: string) => {
+    if (dateStr <= todayStr) setSelectedDate(dateStr);
+  };
+
+  // 今日の画面でのチェックと同じ経路で保存し、連続記録も再計算させる
+  const handleToggleRoutine = (date: string, section: RoutineType, routineId: string) => {
+    if (!canEditDate(date, todayStr, backfillGraceDays)) return;
+    const routine = getDayLog(data, date)[section].routines.find((item) => item.id === routineId);
+    if (!routine) return;
+
+    const event: RoutineEvent = {
+      date,
+      section,
+      routineId,
+      completed: !routine.completed,
+      occurredAt: new Date().toISOString(),
+    };
+    commitRoutineEvent(event, commitData);
+  };
+
   const goToPreviousMonth = () => {
     setCurrentDate(new Date(year, month - 1, 1));
   };
@@ -84,22 +133,20 @@ export default function CalendarView({ dayLogs }: CalendarViewProps) {
   const weekDays = ['日', '月', '火', '水', '木', '金', '土'];
 
   // 統計計算
-  const totalCompleted = dayLogs.filter(
-    (log) => log.morning.completed && log.evening.completed
-  ).length;
+  const totalCompleted = dayLogs.filter((log) => getDayCompletion(log).isFullyCompleted).length;
 
   const calculateStreak = () => {
     let streak = 0;
-    const todayDate = new Date();
-    todayDate.setHours(0, 0, 0, 0);
 
     for (let i = 0; i < 30; i++) {
-      const date = new Date(todayDate);
-      date.setDate(date.getDate() - i);
-      const dateStr = date.toISOString().split('T')[0];
+      const dateStr = addDays(todayStr, -i);
       const log = dayLogs.find((l) => l.date === dateStr);
+      const completion = log ? getDayCompletion(log) : null;
 
-      if (log && log.morning.completed && log.evening.completed) {
+      if (completion && completion.scheduled === 0) {
+        // 予定のない日は連続記録を途切れさせない
+        continue;
+      } else if (completion?.isFullyCompleted) {
         streak++;
       } else if (i === 0) {
         continue;
@@ -110,7 +157,8 @@ export default function CalendarView({ dayLogs }: CalendarViewProps) {
     return streak;
   };
 
-  const streak = calculateStreak();
+  // サーバーで全期間（フリーズ込み）から計算した値があればそちらを使う
+  const streak = streaks?.overall.current ?? calculateStreak();
 
   return (
     <div className="calendar-container">
@@ -141,6 +189,22 @@ export default function CalendarView({ dayLogs }: CalendarViewProps) {
             <span className="stat-value">{totalCompleted}日</span>
           </div>
         </div>
+        <div className="routine-filter">
+          <button
+            type="button"
+            className={`routine-filter-button ${layer === 'completion' ? 'active' : ''}`}
+            onClick={() => setLayer('completion')}
+          >
+            ✅ 達成度
+          </button>
+          <button
+            type="button"
+            className={`routine-filter-button ${layer === 'mood' ? 'active' : ''}`}
+            onClick={() => setLayer('mood')}
+          >
+            🎨 気分
+          </button>
+        </div>
       </div>
 
       <div className="card calendar-main-card">
@@ -154,13 +218,17 @@ export default function CalendarView({ dayLogs }: CalendarViewProps) {
         <div className="calendar-grid">
           {calendarDays.map((day, index) => {
             const status = getDayStatus(day);
-            const dateStr = day.date.toISOString().split('T')[0];
-            const isToday = dateStr === today.toISOString().split('T')[0];
+            const isToday = formatDateKey(day.date) === todayStr;
+            const completion = day.log ? getDayCompletion(day.log) : null;
+            const mood = layer === 'mood' ? day.log?.evening.mood : undefined;
 
             return (
               <div
                 key={index}
                 className={`calendar-day ${status} ${!day.isCurrentMonth ? 'other-month' : ''} ${isToday ? 'today' : ''}`}
+                title={completion && completion.scheduled > 0 ? `${completion.completed} / ${completion.scheduled} 達成` : undefined}
+                style={mood ? { background: MOOD_OPTIONS[mood].color, borderColor: MOOD_OPTIONS[mood].color } : undefined}
+                onClick={() => handleSelectDay(formatDateKey(day.date))}
               >
                 <div className="calendar-day-number">{day.date.getDate()}</div>
                 {day.log && (
@@ -180,21 +248,45 @@ export default function CalendarView({ dayLogs }: CalendarViewProps) {
       </div>
 
       <div className="card calendar-legend-card">
-        <div className="calendar-legend">
-          <div className="legend-item">
-            <div className="legend-color completed"></div>
-            <span>完全達成</span>
-          </div>
-          <div className="legend-item">
-            <div className="legend-color partial"></div>
-            <span>部分達成</span>
+        {layer === 'mood' ? (
+          <div className="calendar-legend">
+            {MOOD_SCALE.map((value) => (
+              <div key={value} className="legend-item">
+                <div className="legend-color" style={{ background: MOOD_OPTIONS[value].color }}></div>
+                <span>
+                  {MOOD_OPTIONS[value].emoji} {MOOD_OPTIONS[value].label}
+                </span>
+              </div>
+            ))}
           </div>
-          <div className="legend-item">
-            <div className="legend-color today"></div>
-            <span>今日</span>
+        ) : (
+          <div className="calendar-legend">
+            <div className="legend-item">
+              <div className="legend-color completed"></div>
+              <span>完全達成</span>
+            </div>
+            <div className="legend-item">
+              <div className="legend-color partial"></div>
+              <span>部分達成</span>
+            </div>
+            <div className="legend-item">
+              <div className="legend-color today"></div>
+              <span>今日</span>
+            </div>
           </div>
-        </div>
+        )}
       </div>
+
+      {selectedDate && (
+        <DayDetailDrawer
+          log={getDayLog(data, selectedDate)}
+          isToday={selectedDate === todayStr}
+          editable={canEditDate(selectedDate, todayStr, backfillGraceDays)}
+          frozen={streaks?.frozenDates.includes(selectedDate) ?? false}
+          onToggleRoutine={(section, routineId) => handleToggleRoutine(selectedDate, section, routineId)}
+          onClose={() => setSelectedDate(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,16 +1,18 @@
 import { useEffect, useMemo, useState } from 'react';
 import Live2DContainer from '../components/Live2DContainer';
 import ChatInterface from '../components/ChatInterface';
-import { Character, UserProfile } from '../types';
+import StreakSummary from '../components/StreakSummary';
+import { Character, StreakSummary as StreakSummaryData, UserProfile } from '../types';
 import './CharacterView.css';
 
 interface CharacterViewProps {
   character: Character;
   user: UserProfile;
+  streaks: StreakSummaryData;
 }
 
 const DEFAULT_NAV_HEIGHT = 80;
-export default function CharacterView({ character: _character, user: _user }: CharacterViewProps) {
+export default function CharacterView({ character: _character, user: _user, streaks }: CharacterViewProps) {
   const [viewport, setViewport] = useState(() => {
     if (typeof window === 'undefined') {
       return {
@@ -80,6 +82,9 @@ export default function CharacterView({ character: _character, user: _user }: Ch
       </div>
 
       <div className="character-canvas" style={{ height: canvasHeight }}>
+        <div className="character-streak">
+          <StreakSummary streaks={streaks} compact />
+        </div>
         <Live2DContainer
           width={viewport.width}
           height={live2DHeight}
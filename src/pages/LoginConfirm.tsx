@@ -0,0 +1,64 @@
+import { useMemo, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { confirmLoginLink } from '../utils/api';
+
+// トークンの本文（署名の前の部分）からメールアドレスを読む。表示用で、検証はサーバーで行う
+function readLinkEmail(token: string): string | null {
+  try {
+    const body = token.split('.')[0].replace(/-/g, '+').replace(/_/g, '/');
+    const payload = JSON.parse(new TextDecoder().decode(Uint8Array.from(atob(body), (char) => char.charCodeAt(0))));
+    return typeof payload.email === 'string' ? payload.email : null;
+  } catch {
+    return null;
+  }
+}
+
+// メールのログインリンクから開く確認画面。ボタンを押したときだけログインする
+export default function LoginConfirm() {
+  const location = useLocation();
+  const token = useMemo(() => new URLSearchParams(location.search).get('token') ?? '', [location.search]);
+  const email = useMemo(() => readLinkEmail(token), [token]);
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConfirm = async () => {
+    try {
+      setConfirming(true);
+      setError(null);
+      await confirmLoginLink(token);
+      // ログインしたアカウントのデータを読み込み直す
+      window.location.replace(import.meta.env.BASE_URL);
+    } catch (err) {
+      console.error(err);
+      setError('ログインリンクの有効期限が切れているか、既に使われています。もう一度リンクを送信してください。');
+      setConfirming(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <h1 className="card-title">🔑 ログイン</h1>
+      {email ? (
+        <p style={{ color: '#546854', marginBottom: '1.5rem', textAlign: 'center' }}>
+          {email} のアカウントでログインします。
+          <br />
+          自分で送信したリンクでない場合は、このページを閉じてください。
+        </p>
+      ) : (
+        <p style={{ color: '#546854', marginBottom: '1.5rem', textAlign: 'center' }}>ログインリンクを読み込めませんでした。</p>
+      )}
+
+      {error && (
+        <div className="bonus-message" style={{ marginBottom: '1rem', background: '#ffe3e3', color: '#b94a48' }}>
+          {error}
+        </div>
+      )}
+
+      {email && (
+        <button className="button" type="button" onClick={handleConfirm} disabled={confirming}>
+          {confirming ? 'ログイン中...' : 'ログインする'}
+        </button>
+      )}
+    </div>
+  );
+}
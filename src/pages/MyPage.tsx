@@ -1,14 +1,43 @@
 import { FormEvent, useEffect, useMemo, useState } from 'react';
-import { AppData, UserProfile } from '../types';
-import { peekUserId, updateUserProfile } from '../utils/api';
+import { AppData, RoutineType, UserProfile } from '../types';
+import { getBrowserTimeZone, getToday } from '../../shared/date';
+import { ExportFormat } from '../../shared/export';
+import { BACKFILL_EXPERIENCE_RATE, MAX_BACKFILL_GRACE_DAYS } from '../../shared/routineEvents';
+import { getDueRoutines, getRoutineTemplateId } from '../../shared/schedule';
+import BackupImport from '../components/BackupImport';
+import HabitImport from '../components/HabitImport';
+import RoutineTemplateEditor from '../components/RoutineTemplateEditor';
+import { exportData, peekUserId, requestLoginLink, updateUserProfile } from '../utils/api';
+import { downloadBlob } from '../utils/download';
+import { getPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from '../utils/push';
+
+const FALLBACK_TIME_ZONES = ['Asia/Tokyo', 'Asia/Seoul', 'Asia/Shanghai', 'Europe/London', 'America/New_York', 'America/Los_Angeles', 'UTC'];
+
+const listTimeZones = (current: string): string[] => {
+  const supported = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone');
+  const zones = supported && supported.length > 0 ? supported : FALLBACK_TIME_ZONES;
+  return zones.includes(current) ? zones : [current, ...zones];
+};
+
+// 1日の始まりは 0:00〜11:00 の1時間単位で選べる
+const DAY_START_OPTIONS = Array.from({ length: 12 }, (_, hour) => `${String(hour).padStart(2, '0')}:00`);
+const BACKFILL_GRACE_OPTIONS = Array.from({ length: MAX_BACKFILL_GRACE_DAYS + 1 }, (_, days) => days);
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'json', label: 'バックアップ（JSON）', description: 'すべての記録と設定をまとめたファイル。下の「データの取り込み」で復元できます' },
+  { format: 'csv', label: '記録の一覧（CSV）', description: '1日・ルーティンごとの達成状況。表計算ソフトで開けます' },
+  { format: 'ics', label: 'リマインダー（iCalendar）', description: '朝・夜の通知時刻の予定。カレンダーアプリに取り込めます' },
+];
 
 interface MyPageProps {
   data: AppData;
   updateData: (updater: (prev: AppData) => AppData) => void;
+  commitData: (updater: (prev: AppData) => AppData) => void;
   onProfileUpdated: (user: UserProfile) => void;
+  onImported: (data: AppData) => void;
 }
 
-export default function MyPage({ data, updateData, onProfileUpdated }: MyPageProps) {
+export default function MyPage({ data, updateData, commitData, onProfileUpdated, onImported }: MyPageProps) {
   const { user } = data;
 
   const [displayName, setDisplayName] = useState(user.displayName || '');
@@ -17,12 +46,26 @@ export default function MyPage({ data, updateData, onProfileUpdated }: MyPagePro
   const [message, setMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const userCode = useMemo(() => peekUserId(), [data.user.id]);
+  const [sendingLink, setSendingLink] = useState(false);
 
   // 設定関連のstate
   const [morningRoutines, setMorningRoutines] = useState(data.defaultMorningRoutines);
   const [eveningRoutines, setEveningRoutines] = useState(data.defaultEveningRoutines);
   const [morningTime, setMorningTime] = useState(data.settings.morningNotificationTime);
   const [eveningTime, setEveningTime] = useState(data.settings.eveningNotificationTime);
+  const [timeZone, setTimeZone] = useState(data.settings.timeZone);
+  const [dayStartTime, setDayStartTime] = useState(data.settings.dayStartTime);
+  const [backfillGraceDays, setBackfillGraceDays] = useState(data.settings.backfillGraceDays);
+  const timeZoneOptions = useMemo(() => listTimeZones(data.settings.timeZone), [data.settings.timeZone]);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [updatingPush, setUpdatingPush] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    getPushSubscription()
+      .then((subscription) => setPushEnabled(Boolean(subscription)))
+      .catch(() => setPushEnabled(false));
+  }, []);
 
   useEffect(() => {
     setDisplayName(user.displayName || '');
@@ -48,6 +91,18 @@ export default function MyPage({ data, updateData, onProfileUpdated }: MyPagePro
     setEveningTime(data.settings.eveningNotificationTime);
   }, [data.settings.eveningNotificationTime]);
 
+  useEffect(() => {
+    setTimeZone(data.settings.timeZone);
+  }, [data.settings.timeZone]);
+
+  useEffect(() => {
+    setDayStartTime(data.settings.dayStartTime);
+  }, [data.settings.dayStartTime]);
+
+  useEffect(() => {
+    setBackfillGraceDays(data.settings.backfillGraceDays);
+  }, [data.settings.backfillGraceDays]);
+
   const notificationPreview = useMemo(() => {
     const now = new Date();
 
@@ -109,49 +164,35 @@ export default function MyPage({ data, updateData, onProfileUpdated }: MyPagePro
     }
   };
 
-  const saveMorningRoutines = () => {
-    const trimmed = morningRoutines.map((routine) => routine.trim()).filter((routine) => routine.length > 0);
-    setMorningRoutines(trimmed);
-    const today = new Date().toISOString().split('T')[0];
-
-    updateData((prev) => {
-      const updatedDayLogs = prev.dayLogs.map((log) => {
-        if (log.date !== today) {
-          return log;
-        }
-
-        const updatedRoutines = trimmed.map((text, index) => {
-          const existing = log.morning.routines.find((routine) => routine.text === text);
-          return existing
-            ? { ...existing, id: `morning-${index}`, text }
-            : { id: `morning-${index}`, text, completed: false };
-        });
-
-        const allCompleted = updatedRoutines.length > 0 && updatedRoutines.every((routine) => routine.completed);
-
-        return {
-          ...log,
-          morning: {
-            routines: updatedRoutines,
-            completed: allCompleted,
-          },
-        };
-      });
+  const handleSendLoginLink = async () => {
+    if (!user.email) {
+      setError('先にメールアドレスを保存してください');
+      return;
+    }
 
-      return {
-      ...prev,
-        defaultMorningRoutines: trimmed,
-        dayLogs: updatedDayLogs,
-      };
-    });
-    setMessage('朝ルーティンを保存しました！');
-    setTimeout(() => setMessage(null), 2000);
+    try {
+      setSendingLink(true);
+      setError(null);
+      const result = await requestLoginLink(user.email);
+      if (result.devLink) {
+        console.info('[Auth] login link:', result.devLink);
+      }
+      setMessage('確認リンクを送信しました。メールのリンクを開くと、別の端末からもログインできます。');
+      setTimeout(() => setMessage(null), 5000);
+    } catch (err) {
+      console.error(err);
+      setError('確認リンクの送信に失敗しました。');
+    } finally {
+      setSendingLink(false);
+    }
   };
 
-  const saveEveningRoutines = () => {
-    const trimmed = eveningRoutines.map((routine) => routine.trim()).filter((routine) => routine.length > 0);
-    setEveningRoutines(trimmed);
-    const today = new Date().toISOString().split('T')[0];
+  const saveRoutines = (section: RoutineType) => {
+    const templates = (section === 'morning' ? morningRoutines : eveningRoutines)
+      .map((template) => ({ ...template, text: template.text.trim() }))
+      .filter((template) => template.text.length > 0);
+    (section === 'morning' ? setMorningRoutines : setEveningRoutines)(templates);
+    const today = getToday(data.settings.timeZone, data.settings.dayStartTime);
 
     updateData((prev) => {
       const updatedDayLogs = prev.dayLogs.map((log) => {
@@ -159,32 +200,34 @@ export default function MyPage({ data, updateData, onProfileUpdated }: MyPagePro
           return log;
         }
 
-        const updatedRoutines = trimmed.map((text, index) => {
-          const existing = log.evening.routines.find((routine) => routine.text === text);
+        // 今日のログも実施予定のルーティンだけに揃える
+        // 既存の項目はルーティン定義の ID で引き継ぐ（名前を変えても達成状況と経験値の記録が残る）
+        const updatedRoutines = getDueRoutines(templates, today).map((template) => {
+          const existing = log[section].routines.find((routine) => getRoutineTemplateId(routine) === template.id);
           return existing
-            ? { ...existing, id: `evening-${index}`, text }
-            : { id: `evening-${index}`, text, completed: false };
+            ? { ...existing, templateId: template.id, text: template.text }
+            : { id: template.id, templateId: template.id, text: template.text, completed: false };
         });
 
         const allCompleted = updatedRoutines.length > 0 && updatedRoutines.every((routine) => routine.completed);
 
         return {
           ...log,
-          evening: {
+          [section]: {
+            ...log[section],
             routines: updatedRoutines,
             completed: allCompleted,
-            mood: log.evening.mood,
           },
         };
       });
 
       return {
-      ...prev,
-        defaultEveningRoutines: trimmed,
+        ...prev,
+        ...(section === 'morning' ? { defaultMorningRoutines: templates } : { defaultEveningRoutines: templates }),
         dayLogs: updatedDayLogs,
       };
     });
-    setMessage('夜ルーティンを保存しました！');
+    setMessage(section === 'morning' ? '朝ルーティンを保存しました！' : '夜ルーティンを保存しました！');
     setTimeout(() => setMessage(null), 2000);
   };
 
@@ -192,6 +235,7 @@ export default function MyPage({ data, updateData, onProfileUpdated }: MyPagePro
     updateData((prev) => ({
       ...prev,
       settings: {
+        ...prev.settings,
         morningNotificationTime: morningTime,
         eveningNotificationTime: eveningTime,
       },
@@ -200,32 +244,52 @@ export default function MyPage({ data, updateData, onProfileUpdated }: MyPagePro
     setTimeout(() => setMessage(null), 2000);
   };
 
-  const addMorningRoutine = () => {
-    setMorningRoutines([...morningRoutines, '']);
-  };
-
-  const removeMorningRoutine = (index: number) => {
-    setMorningRoutines(morningRoutines.filter((_, i) => i !== index));
-  };
-
-  const updateMorningRoutine = (index: number, value: string) => {
-    const updated = [...morningRoutines];
-    updated[index] = value;
-    setMorningRoutines(updated);
-  };
-
-  const addEveningRoutine = () => {
-    setEveningRoutines([...eveningRoutines, '']);
+  const togglePush = async () => {
+    setUpdatingPush(true);
+    setError(null);
+    try {
+      if (pushEnabled) {
+        await unsubscribeFromPush();
+        setPushEnabled(false);
+        setMessage('通知をオフにしました');
+      } else {
+        await subscribeToPush();
+        setPushEnabled(true);
+        setMessage('通知をオンにしました！');
+      }
+      setTimeout(() => setMessage(null), 2000);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setUpdatingPush(false);
+    }
   };
 
-  const removeEveningRoutine = (index: number) => {
-    setEveningRoutines(eveningRoutines.filter((_, i) => i !== index));
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    setError(null);
+    try {
+      const { blob, filename } = await exportData(data, format);
+      downloadBlob(blob, filename);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setExporting(false);
+    }
   };
 
-  const updateEveningRoutine = (index: number, value: string) => {
-    const updated = [...eveningRoutines];
-    updated[index] = value;
-    setEveningRoutines(updated);
+  const saveDateSettings = () => {
+    updateData((prev) => ({
+      ...prev,
+      settings: {
+        ...prev.settings,
+        timeZone,
+        dayStartTime,
+        backfillGraceDays,
+      },
+    }));
+    setMessage('日付の設定を保存しました！');
+    setTimeout(() => setMessage(null), 2000);
   };
 
   return (
@@ -240,7 +304,7 @@ export default function MyPage({ data, updateData, onProfileUpdated }: MyPagePro
         {userCode && (
           <div className="bonus-message" style={{ marginBottom: '1.25rem', background: '#f0f8ec', color: '#1f5728' }}>
             あなたのユーザーコード: <strong>{userCode}</strong><br />
-            端末を変更する際はこのコードで復元できます。
+            端末を変更する際は、メールアドレスを確認しておくとログインリンクで復元できます。
           </div>
         )}
 
@@ -282,6 +346,16 @@ export default function MyPage({ data, updateData, onProfileUpdated }: MyPagePro
             {saving ? '保存中...' : 'プロフィールを保存する'}
           </button>
         </form>
+
+        <button
+          className="add-button"
+          type="button"
+          onClick={handleSendLoginLink}
+          disabled={sendingLink || !user.email}
+          style={{ marginTop: '1rem' }}
+        >
+          {sendingLink ? '送信中...' : '📧 メールアドレスを確認してログインを有効にする'}
+        </button>
       </div>
 
       {/* ルーティン設定セクション */}
@@ -290,68 +364,22 @@ export default function MyPage({ data, updateData, onProfileUpdated }: MyPagePro
 
         <div className="settings-section">
           <h3 className="settings-title">朝ルーティン</h3>
-          <div className="routine-editor">
-            {morningRoutines.map((routine, index) => (
-              <div key={index} className="routine-editor-item">
-                <input
-                  type="text"
-                  className="routine-editor-input"
-                  value={routine}
-                  onChange={(e) => updateMorningRoutine(index, e.target.value)}
-                  placeholder="ルーティン項目を入力"
-                />
-                <button
-                  className="delete-button"
-                  onClick={() => removeMorningRoutine(index)}
-                >
-                  削除
-                </button>
-              </div>
-            ))}
-            <button className="add-button" onClick={addMorningRoutine}>
-              + 追加
-            </button>
-            <button
-              className="button"
-              onClick={saveMorningRoutines}
-              style={{ marginTop: '1rem' }}
-            >
-              保存
-            </button>
-          </div>
+          <RoutineTemplateEditor
+            value={morningRoutines}
+            today={getToday(data.settings.timeZone, data.settings.dayStartTime)}
+            onChange={setMorningRoutines}
+            onSave={() => saveRoutines('morning')}
+          />
         </div>
 
         <div className="settings-section">
           <h3 className="settings-title">夜ルーティン</h3>
-          <div className="routine-editor">
-            {eveningRoutines.map((routine, index) => (
-              <div key={index} className="routine-editor-item">
-                <input
-                  type="text"
-                  className="routine-editor-input"
-                  value={routine}
-                  onChange={(e) => updateEveningRoutine(index, e.target.value)}
-                  placeholder="ルーティン項目を入力"
-                />
-                <button
-                  className="delete-button"
-                  onClick={() => removeEveningRoutine(index)}
-                >
-                  削除
-                </button>
-              </div>
-            ))}
-            <button className="add-button" onClick={addEveningRoutine}>
-              + 追加
-            </button>
-            <button
-              className="button"
-              onClick={saveEveningRoutines}
-              style={{ marginTop: '1rem' }}
-            >
-              保存
-            </button>
-          </div>
+          <RoutineTemplateEditor
+            value={eveningRoutines}
+            today={getToday(data.settings.timeZone, data.settings.dayStartTime)}
+            onChange={setEveningRoutines}
+            onSave={() => saveRoutines('evening')}
+          />
         </div>
       </div>
 
@@ -390,9 +418,114 @@ export default function MyPage({ data, updateData, onProfileUpdated }: MyPagePro
           <button className="button" onClick={saveNotificationTimes}>
             保存
           </button>
+          {isPushSupported() ? (
+            <button
+              className="button"
+              style={{ marginTop: '0.75rem' }}
+              onClick={togglePush}
+              disabled={updatingPush}
+            >
+              {pushEnabled ? '🔕 この端末の通知をオフにする' : '🔔 この端末で通知を受け取る'}
+            </button>
+          ) : (
+            <p style={{ color: '#546854', fontSize: '0.9rem', marginTop: '0.75rem' }}>
+              このブラウザはプッシュ通知に対応していません
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* 日付の設定セクション */}
+      <div className="card" style={{ marginTop: '1.5rem' }}>
+        <h2 className="card-title" style={{ fontSize: '1.25rem' }}>🌏 日付の設定</h2>
+        <div className="settings-section">
+          <div className="input-group">
+            <label className="input-label">タイムゾーン</label>
+            <select
+              className="input-field"
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+            >
+              {timeZoneOptions.map((zone) => (
+                <option key={zone} value={zone}>
+                  {zone}
+                </option>
+              ))}
+            </select>
+          </div>
+          <p style={{ color: '#546854', fontSize: '0.9rem', marginBottom: '1rem' }}>
+            この端末のタイムゾーン: {getBrowserTimeZone()}
+          </p>
+          <div className="input-group">
+            <label className="input-label">1日の始まり</label>
+            <select
+              className="input-field"
+              value={dayStartTime}
+              onChange={(e) => setDayStartTime(e.target.value)}
+            >
+              {DAY_START_OPTIONS.map((time) => (
+                <option key={time} value={time}>
+                  {time}
+                </option>
+              ))}
+            </select>
+          </div>
+          <p style={{ color: '#546854', fontSize: '0.9rem', marginBottom: '1rem' }}>
+            この時刻より前にチェックしたルーティンは前日の記録になります
+          </p>
+          <div className="input-group">
+            <label className="input-label">過去の記録の修正</label>
+            <select
+              className="input-field"
+              value={backfillGraceDays}
+              onChange={(e) => setBackfillGraceDays(Number(e.target.value))}
+            >
+              {BACKFILL_GRACE_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {days === 0 ? '修正しない' : `${days}日前まで`}
+                </option>
+              ))}
+            </select>
+          </div>
+          <p style={{ color: '#546854', fontSize: '0.9rem', marginBottom: '1rem' }}>
+            カレンダーから付け忘れたチェックを後から記録できます（獲得できる経験値は{BACKFILL_EXPERIENCE_RATE * 100}%になります）
+          </p>
+          <button className="button" onClick={saveDateSettings}>
+            保存
+          </button>
         </div>
       </div>
 
+      {/* データのエクスポートセクション */}
+      <div className="card" style={{ marginTop: '1.5rem' }}>
+        <h2 className="card-title" style={{ fontSize: '1.25rem' }}>📦 データのエクスポート</h2>
+        <div className="settings-section">
+          {EXPORT_OPTIONS.map((option) => (
+            <div key={option.format} style={{ marginBottom: '1rem' }}>
+              <button className="button" onClick={() => handleExport(option.format)} disabled={exporting}>
+                {option.label}
+              </button>
+              <p style={{ color: '#546854', fontSize: '0.9rem', marginTop: '0.5rem' }}>{option.description}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* データの取り込みセクション */}
+      <div className="card" style={{ marginTop: '1.5rem' }}>
+        <h2 className="card-title" style={{ fontSize: '1.25rem' }}>📥 データの取り込み</h2>
+        <div className="settings-section">
+          <BackupImport modes={['merge', 'replace']} onImported={onImported} />
+        </div>
+      </div>
+
+      {/* 他のアプリからの取り込みセクション */}
+      <div className="card" style={{ marginTop: '1.5rem' }}>
+        <h2 className="card-title" style={{ fontSize: '1.25rem' }}>🔁 他のアプリから取り込む</h2>
+        <div className="settings-section">
+          <HabitImport data={data} updateData={updateData} commitData={commitData} />
+        </div>
+      </div>
     </div>
   );
 }
@@ -1,8 +1,9 @@
 import { FormEvent, useEffect, useMemo, useState } from 'react';
 import { Navigate, useLocation, useNavigate } from 'react-router-dom';
 import AvatarBuilder from '../components/AvatarBuilder';
+import BackupImport from '../components/BackupImport';
 import { AppData, AvatarConfig, createDefaultAvatarConfig } from '../types';
-import { registerUser, switchUser, peekUserId } from '../utils/api';
+import { registerUser, requestLoginLink } from '../utils/api';
 
 interface RegisterProps {
   data: AppData;
@@ -17,11 +18,12 @@ export default function Register({ data, onRegistered }: RegisterProps) {
   const [avatar, setAvatar] = useState<AvatarConfig>(createDefaultAvatarConfig());
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [existingCode, setExistingCode] = useState('');
-  const [restoring, setRestoring] = useState(false);
-  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [loginEmail, setLoginEmail] = useState('');
+  const [sendingLink, setSendingLink] = useState(false);
+  const [loginMessage, setLoginMessage] = useState<string | null>(null);
+  const [loginError, setLoginError] = useState<string | null>(null);
 
-  const currentUserId = useMemo(() => peekUserId(), []);
+  const linkExpired = useMemo(() => new URLSearchParams(location.search).get('login') === 'expired', [location.search]);
 
   useEffect(() => {
     if (data.user.isRegistered) {
@@ -33,7 +35,7 @@ export default function Register({ data, onRegistered }: RegisterProps) {
     setDisplayName('');
     setEmail('');
     setAvatar(createDefaultAvatarConfig());
-    setExistingCode('');
+    setLoginEmail('');
   }, [data.user.isRegistered, navigate, location.pathname]);
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
@@ -61,23 +63,25 @@ export default function Register({ data, onRegistered }: RegisterProps) {
     }
   };
 
-  const handleRestore = async (event: FormEvent<HTMLFormElement>) => {
+  const handleRequestLink = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    if (!existingCode.trim()) {
-      setRestoreError('ユーザーコードを入力してください');
+    if (!loginEmail.trim()) {
+      setLoginError('メールアドレスを入力してください');
       return;
     }
     try {
-      setRestoring(true);
-      setRestoreError(null);
-      const restored = await switchUser(existingCode.trim());
-      onRegistered(restored);
-      navigate('/', { replace: true });
+      setSendingLink(true);
+      setLoginError(null);
+      const result = await requestLoginLink(loginEmail.trim());
+      if (result.devLink) {
+        console.info('[Auth] login link:', result.devLink);
+      }
+      setLoginMessage('ログインリンクを送信しました。メールのリンクを開くとデータが復元されます。');
     } catch (err) {
       console.error(err);
-      setRestoreError('ユーザーコードの読み込みに失敗しました。正しいコードか確認してください。');
+      setLoginError('ログインリンクの送信に失敗しました。メールアドレスを確認してください。');
     } finally {
-      setRestoring(false);
+      setSendingLink(false);
     }
   };
 
@@ -92,10 +96,9 @@ export default function Register({ data, onRegistered }: RegisterProps) {
         名前とアバターを設定して、あなた専用の「ミドリの芽」を育てましょう。
       </p>
 
-      {currentUserId && (
-        <div className="bonus-message" style={{ marginBottom: '1.25rem', background: '#f0f8ec', color: '#1f5728' }}>
-          あなたのユーザーコード: <strong>{currentUserId}</strong><br />
-          このコードをメモしておくと、別の端末でもデータを復元できます。
+      {linkExpired && (
+        <div className="bonus-message" style={{ marginBottom: '1.25rem', background: '#ffe3e3', color: '#b94a48' }}>
+          ログインリンクの有効期限が切れています。もう一度リンクを送信してください。
         </div>
       )}
 
@@ -145,31 +148,50 @@ export default function Register({ data, onRegistered }: RegisterProps) {
           🔄 既存データを復元する
         </h2>
         <p style={{ color: '#546854', marginBottom: '1rem', textAlign: 'center', fontSize: '0.95rem' }}>
-          すでにユーザーコードをお持ちの場合は、こちらから復元できます。
+          確認済みのメールアドレスをお持ちの場合は、ログインリンクで復元できます。
         </p>
-        <form onSubmit={handleRestore} className="form-stack">
+        <form onSubmit={handleRequestLink} className="form-stack">
           <label className="input-group">
-            <span className="input-label">ユーザーコード</span>
+            <span className="input-label">メールアドレス</span>
             <input
-              type="text"
+              type="email"
               className="input-field"
-              value={existingCode}
-              placeholder="例: user-1699352045000-abc123xyz"
-              onChange={(event) => setExistingCode(event.target.value)}
+              value={loginEmail}
+              placeholder="example@totono.life"
+              onChange={(event) => setLoginEmail(event.target.value)}
             />
           </label>
 
-          {restoreError && (
+          {loginMessage && (
+            <div className="bonus-message" style={{ marginTop: '0.75rem' }}>
+              {loginMessage}
+            </div>
+          )}
+
+          {loginError && (
             <div className="bonus-message" style={{ marginTop: '0.75rem', background: '#ffe3e3', color: '#b94a48' }}>
-              {restoreError}
+              {loginError}
             </div>
           )}
 
-          <button className="button" type="submit" disabled={restoring} style={{ marginTop: '1.5rem' }}>
-            {restoring ? '復元中...' : 'このコードで復元する'}
+          <button className="button" type="submit" disabled={sendingLink} style={{ marginTop: '1.5rem' }}>
+            {sendingLink ? '送信中...' : 'ログインリンクを送る'}
           </button>
         </form>
       </section>
+
+      <section style={{ marginTop: '2.5rem' }}>
+        <h2 className="card-title" style={{ fontSize: '1.1rem', marginBottom: '1rem' }}>
+          📥 バックアップファイルから復元する
+        </h2>
+        <BackupImport
+          modes={['replace']}
+          onImported={(restored) => {
+            onRegistered(restored);
+            navigate('/');
+          }}
+        />
+      </section>
     </div>
   );
 }
@@ -1,7 +1,10 @@
 import { useEffect, useMemo, useState } from 'react';
-import { AppData, DayLog, Mood, RoutineItem } from '../types';
-import { getTodayLog } from '../utils/api';
-import { addExperience, calculateExperience } from '../utils/character';
+import { applyRoutineEvent, RoutineEvent } from '../../shared/routineEvents';
+import { getRoutineTemplateId } from '../../shared/schedule';
+import { AppData, DayLog } from '../types';
+import MoodJournal from '../components/MoodJournal';
+import StreakSummary from '../components/StreakSummary';
+import { commitRoutineEvent, getStreaks, getTodayLog, withDayLog } from '../utils/api';
 
 type RoutineSection = 'morning' | 'evening';
 type RoutineFilter = 'all' | RoutineSection;
@@ -9,10 +12,11 @@ type RoutineFilter = 'all' | RoutineSection;
 interface RoutineDashboardProps {
   data: AppData;
   updateData: (updater: (prev: AppData) => AppData) => void;
+  commitData: (updater: (prev: AppData) => AppData) => void;
   initialSection?: RoutineFilter;
 }
 
-export default function RoutineDashboard({ data, updateData, initialSection = 'all' }: RoutineDashboardProps) {
+export default function RoutineDashboard({ data, updateData, commitData, initialSection = 'all' }: RoutineDashboardProps) {
   const [log, setLog] = useState<DayLog>(() => getTodayLog(data));
   const [filter, setFilter] = useState<RoutineFilter>(initialSection);
   const [showMorningBonus, setShowMorningBonus] = useState(false);
@@ -23,6 +27,15 @@ export default function RoutineDashboard({ data, updateData, initialSection = 'a
     setLog(getTodayLog(data));
   }, [data]);
 
+  // 目安の時刻はルーティン定義から引く
+  const targetTimes = useMemo(
+    () =>
+      new Map(
+        [...data.defaultMorningRoutines, ...data.defaultEveningRoutines].map((template) => [template.id, template.targetTime])
+      ),
+    [data.defaultMorningRoutines, data.defaultEveningRoutines]
+  );
+
   const morningProgress = useMemo(() => {
     const completed = log.morning.routines.filter((routine) => routine.completed).length;
     const total = log.morning.routines.length || 1;
@@ -44,83 +57,55 @@ export default function RoutineDashboard({ data, updateData, initialSection = 'a
   }, [log.evening.routines]);
 
   const handleToggleRoutine = (section: RoutineSection, id: string) => {
-    updateData((prev) => {
-      const today = new Date().toISOString().split('T')[0];
-      const todayLog = getTodayLog(prev);
-      const sectionState = section === 'morning' ? todayLog.morning : todayLog.evening;
-
-      const updatedRoutines = sectionState.routines.map((routine: RoutineItem) =>
-        routine.id === id ? { ...routine, completed: !routine.completed } : routine
-      );
-
-      const allCompleted = updatedRoutines.length > 0 && updatedRoutines.every((routine) => routine.completed);
-      const wasCompleted = sectionState.completed;
-
-      if (section === 'morning') {
-        if (allCompleted && !wasCompleted) {
-          setShowMorningBonus(true);
-          setTimeout(() => setShowMorningBonus(false), 3000);
-          window.charAction?.('morning');
-        } else if (!allCompleted && wasCompleted) {
-          window.charAction?.('miss');
-        }
-      } else {
-        if (allCompleted && !wasCompleted) {
-          setShowEveningBonus(true);
-          setTimeout(() => setShowEveningBonus(false), 3000);
-          window.charAction?.('night');
-        } else if (!allCompleted && wasCompleted) {
-          window.charAction?.('miss');
-        }
-      }
-
-      const newSectionState = {
-        ...sectionState,
-        routines: updatedRoutines,
-        completed: allCompleted,
-      };
-
-      const newLog: DayLog =
-        section === 'morning'
-          ? { ...todayLog, morning: newSectionState }
-          : { ...todayLog, evening: newSectionState };
+    const todayLog = getTodayLog(data);
+    const sectionState = todayLog[section];
+    const routine = sectionState.routines.find((item) => item.id === id);
+    if (!routine) return;
+
+    const event: RoutineEvent = {
+      date: todayLog.date,
+      section,
+      routineId: id,
+      completed: !routine.completed,
+      occurredAt: new Date().toISOString(),
+    };
 
-      const updatedLogs = prev.dayLogs.some((entry) => entry.date === today)
-        ? prev.dayLogs.map((entry) => (entry.date === today ? newLog : entry))
-        : [...prev.dayLogs, newLog];
+    const allCompleted = applyRoutineEvent(todayLog, event).log[section].completed;
+    const wasCompleted = sectionState.completed;
 
-      const completedCount = updatedRoutines.filter((routine) => routine.completed).length;
-      const exp = calculateExperience(completedCount, updatedRoutines.length, allCompleted);
-      const updatedCharacter = addExperience(prev.character, exp);
+    if (section === 'morning') {
+      if (allCompleted && !wasCompleted) {
+        setShowMorningBonus(true);
+        setTimeout(() => setShowMorningBonus(false), 3000);
+        window.charAction?.('morning');
+      } else if (!allCompleted && wasCompleted) {
+        window.charAction?.('miss');
+      }
+    } else {
+      if (allCompleted && !wasCompleted) {
+        setShowEveningBonus(true);
+        setTimeout(() => setShowEveningBonus(false), 3000);
+        window.charAction?.('night');
+      } else if (!allCompleted && wasCompleted) {
+        window.charAction?.('miss');
+      }
+    }
 
-      return {
-        ...prev,
-        character: updatedCharacter,
-        dayLogs: updatedLogs,
-      };
-    });
+    commitRoutineEvent(event, commitData);
   };
 
-  const handleMoodSelect = (mood: Mood) => {
+  const handleJournalChange = (patch: Partial<Pick<DayLog['evening'], 'mood' | 'tags' | 'journal'>>) => {
     updateData((prev) => {
-      const today = new Date().toISOString().split('T')[0];
       const todayLog = getTodayLog(prev);
       const newLog: DayLog = {
         ...todayLog,
         evening: {
           ...todayLog.evening,
-          mood,
+          ...patch,
         },
       };
 
-      const updatedLogs = prev.dayLogs.some((entry) => entry.date === today)
-        ? prev.dayLogs.map((entry) => (entry.date === today ? newLog : entry))
-        : [...prev.dayLogs, newLog];
-
-      return {
-        ...prev,
-        dayLogs: updatedLogs,
-      };
+      return withDayLog(prev, newLog);
     });
   };
 
@@ -185,6 +170,8 @@ export default function RoutineDashboard({ data, updateData, initialSection = 'a
             </span>
           </div>
         </div>
+
+        <StreakSummary streaks={getStreaks(data)} />
       </div>
 
       {shouldShowSection('morning') && (
@@ -211,6 +198,9 @@ export default function RoutineDashboard({ data, updateData, initialSection = 'a
                   onClick={(event) => event.stopPropagation()}
                 />
                 <span className="routine-text">{routine.text}</span>
+                {targetTimes.get(getRoutineTemplateId(routine)) && (
+                  <span className="routine-target-time">🕒 {targetTimes.get(getRoutineTemplateId(routine))}</span>
+                )}
               </li>
             ))}
           </ul>
@@ -254,6 +244,9 @@ export default function RoutineDashboard({ data, updateData, initialSection = 'a
                   onClick={(event) => event.stopPropagation()}
                 />
                 <span className="routine-text">{routine.text}</span>
+                {targetTimes.get(getRoutineTemplateId(routine)) && (
+                  <span className="routine-target-time">🕒 {targetTimes.get(getRoutineTemplateId(routine))}</span>
+                )}
               </li>
             ))}
           </ul>
@@ -271,29 +264,7 @@ export default function RoutineDashboard({ data, updateData, initialSection = 'a
             </div>
           )}
 
-          <div className="mood-selector" style={{ marginTop: '1.5rem' }}>
-            <button
-              className={`mood-button ${log.evening.mood === 'happy' ? 'selected' : ''}`}
-              onClick={() => handleMoodSelect('happy')}
-              title="良い"
-            >
-              🙂
-            </button>
-            <button
-              className={`mood-button ${log.evening.mood === 'neutral' ? 'selected' : ''}`}
-              onClick={() => handleMoodSelect('neutral')}
-              title="普通"
-            >
-              😐
-            </button>
-            <button
-              className={`mood-button ${log.evening.mood === 'sad' ? 'selected' : ''}`}
-              onClick={() => handleMoodSelect('sad')}
-              title="良くない"
-            >
-              😞
-            </button>
-          </div>
+          <MoodJournal evening={log.evening} onChange={handleJournalChange} />
 
           <button className="button" onClick={handleGoodNight} disabled={!log.evening.completed}>
             おやすみモード 🌙
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { MOOD_OPTIONS, MOOD_SCALE } from '../../shared/mood';
+import { DEFAULT_STATS_PERIOD, STATS_PERIODS } from '../../shared/stats';
+import BarChart from '../components/BarChart';
+import { fetchStats } from '../utils/api';
+import { AppData, StatsPeriod, StatsSummary } from '../types';
+import './StatsView.css';
+
+interface StatsViewProps {
+  data: AppData;
+}
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+const formatPercent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const formatScore = (score: number | null) => (score === null ? '—' : score.toFixed(1));
+
+export default function StatsView({ data }: StatsViewProps) {
+  const [period, setPeriod] = useState<StatsPeriod>(DEFAULT_STATS_PERIOD);
+  const [stats, setStats] = useState<StatsSummary | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchStats(data, period).then((summary) => {
+      if (!cancelled) setStats(summary);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // 期間を切り替えたときだけ取り直す
+  }, [period]);
+
+  if (!stats) {
+    return (
+      <div className="stats-container">
+        <div className="card stats-loading">集計中...</div>
+      </div>
+    );
+  }
+
+  const moodTotal = MOOD_SCALE.reduce((sum, mood) => sum + stats.moods[mood], 0);
+  const { afterCompleted, afterMissed } = stats.moodCorrelation;
+
+  return (
+    <div className="stats-container">
+      <div className="card stats-header-card">
+        <h1 className="card-title">📊 ふりかえり</h1>
+        <div className="routine-filter">
+          {STATS_PERIODS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={`routine-filter-button ${period === option ? 'active' : ''}`}
+              onClick={() => setPeriod(option)}
+            >
+              {option}日
+            </button>
+          ))}
+        </div>
+        <p className="stats-caption">
+          {stats.from} 〜 {stats.to}（記録のある日: {stats.loggedDays}日）
+        </p>
+        <Link to="/stats/year" className="stats-link">
+          🟪 1年をピクセルで見る →
+        </Link>
+      </div>
+
+      {stats.loggedDays === 0 ? (
+        <div className="card stats-empty">この期間の記録はまだありません</div>
+      ) : (
+        <>
+          <div className="card">
+            <h2 className="stats-title">朝と夜の安定度</h2>
+            <div className="calendar-stats">
+              <div className="stat-item">
+                <span className="stat-label">🌅 朝を全部達成</span>
+                <span className="stat-value">{formatPercent(stats.sections.morning.rate)}</span>
+                <span className="stat-label">
+                  {stats.sections.morning.completed} / {stats.sections.morning.scheduled}日
+                </span>
+              </div>
+              <div className="stat-item">
+                <span className="stat-label">🌙 夜を全部達成</span>
+                <span className="stat-value">{formatPercent(stats.sections.evening.rate)}</span>
+                <span className="stat-label">
+                  {stats.sections.evening.completed} / {stats.sections.evening.scheduled}日
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <div className="card">
+            <h2 className="stats-title">ルーティンごとの達成率</h2>
+            <BarChart
+              items={stats.routines.map((routine) => ({
+                key: `${routine.section}:${routine.templateId}`,
+                label: `${routine.section === 'morning' ? '🌅' : '🌙'} ${routine.text}`,
+                value: routine.rate,
+                title: `${routine.text}: ${routine.completed} / ${routine.scheduled}回`,
+              }))}
+            />
+          </div>
+
+          <div className="card">
+            <h2 className="stats-title">曜日ごとの達成率</h2>
+            <BarChart
+              orientation="vertical"
+              items={stats.weekdays.map((weekday) => ({
+                key: String(weekday.weekday),
+                label: WEEKDAY_LABELS[weekday.weekday],
+                value: weekday.rate,
+                highlight:
+                  weekday.weekday === stats.bestWeekday
+                    ? 'best'
+                    : weekday.weekday === stats.worstWeekday
+                      ? 'worst'
+                      : undefined,
+              }))}
+            />
+            {stats.bestWeekday !== null && stats.worstWeekday !== null && (
+              <p className="stats-caption">
+                得意な曜日は{WEEKDAY_LABELS[stats.bestWeekday]}曜日、苦手な曜日は{WEEKDAY_LABELS[stats.worstWeekday]}曜日です
+              </p>
+            )}
+          </div>
+
+          <div className="card">
+            <h2 className="stats-title">気分</h2>
+            <BarChart
+              max={moodTotal}
+              formatValue={(count) => `${count}日`}
+              items={[...MOOD_SCALE].reverse().map((mood) => ({
+                key: String(mood),
+                label: `${MOOD_OPTIONS[mood].emoji} ${MOOD_OPTIONS[mood].label}`,
+                value: stats.moods[mood],
+              }))}
+            />
+            <h3 className="stats-subtitle">夜のルーティンと翌日の気分</h3>
+            <div className="calendar-stats">
+              <div className="stat-item">
+                <span className="stat-label">達成した翌日</span>
+                <span className="stat-value">{formatScore(afterCompleted.averageScore)}</span>
+                <span className="stat-label">{afterCompleted.days}日分</span>
+              </div>
+              <div className="stat-item">
+                <span className="stat-label">達成しなかった翌日</span>
+                <span className="stat-value">{formatScore(afterMissed.averageScore)}</span>
+                <span className="stat-label">{afterMissed.days}日分</span>
+              </div>
+            </div>
+            <p className="stats-caption">気分の平均（とても良い = 5 〜 とても悪い = 1）</p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { getToday } from '../../shared/date';
+import { MOOD_OPTIONS, MOOD_SCALE } from '../../shared/mood';
+import { getDayCompletion } from '../../shared/schedule';
+import { downloadBlob } from '../utils/download';
+import { loadDayLogsForMonth, mergeDayLogs } from '../utils/api';
+import { AppData, DayLog } from '../types';
+import './YearInPixels.css';
+
+type PixelMode = 'mood' | 'completion';
+
+interface YearInPixelsProps {
+  data: AppData;
+  commitData: (updater: (prev: AppData) => AppData) => void;
+}
+
+// 書き出した画像でも同じ見た目になるよう、色や文字は CSS ではなく SVG の属性で指定する
+const CELL = 14;
+const GAP = 3;
+const LABEL_WIDTH = 24;
+const HEADER_HEIGHT = 44;
+const LEGEND_HEIGHT = 36;
+const PADDING = 12;
+const FONT = "'Hiragino Sans', 'Noto Sans JP', sans-serif";
+
+const GRID_WIDTH = LABEL_WIDTH + 12 * (CELL + GAP);
+const GRID_HEIGHT = HEADER_HEIGHT + 31 * (CELL + GAP);
+const SVG_WIDTH = GRID_WIDTH + PADDING * 2;
+const SVG_HEIGHT = GRID_HEIGHT + LEGEND_HEIGHT + PADDING * 2;
+const PNG_SCALE = 3;
+
+const EMPTY_COLOR = '#f3f4f8';
+const FUTURE_COLOR = '#ffffff';
+
+const COMPLETION_LEVELS = [
+  { label: '未達成', color: '#dfe3f0' },
+  { label: '部分達成', color: '#ffe08a' },
+  { label: '完全達成', color: '#5cb85c' },
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const getPixelColor = (log: DayLog | undefined, mode: PixelMode): string => {
+  if (!log) return EMPTY_COLOR;
+  if (mode === 'mood') {
+    return log.evening.mood ? MOOD_OPTIONS[log.evening.mood].color : EMPTY_COLOR;
+  }
+  const { scheduled, completed, isFullyCompleted } = getDayCompletion(log);
+  if (scheduled === 0) return EMPTY_COLOR;
+  if (isFullyCompleted) return COMPLETION_LEVELS[2].color;
+  return completed > 0 ? COMPLETION_LEVELS[1].color : COMPLETION_LEVELS[0].color;
+};
+
+// SVG を画像として読み込み、canvas に描いて PNG にする
+const svgToPng = (svg: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = SVG_WIDTH * PNG_SCALE;
+      canvas.height = SVG_HEIGHT * PNG_SCALE;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('画像を作成できませんでした'));
+        return;
+      }
+      context.scale(PNG_SCALE, PNG_SCALE);
+      context.drawImage(image, 0, 0, SVG_WIDTH, SVG_HEIGHT);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('画像を作成できませんでした'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('画像を作成できませんでした'));
+    };
+    image.src = url;
+  });
+
+export default function YearInPixels({ data, commitData }: YearInPixelsProps) {
+  const today = getToday(data.settings.timeZone, data.settings.dayStartTime);
+  const currentYear = Number(today.slice(0, 4));
+  const [year, setYear] = useState(currentYear);
+  const [mode, setMode] = useState<PixelMode>('mood');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // 表示する年の記録を月ごとに読み込む（読み込み済みの月は取り直さない）
+  useEffect(() => {
+    const lastMonth = year === currentYear ? Number(today.slice(5, 7)) - 1 : 11;
+    const months = Array.from({ length: lastMonth + 1 }, (_, month) => month);
+    setLoading(true);
+    Promise.all(months.map((month) => loadDayLogsForMonth(year, month)))
+      .then((results) => {
+        const logs = results.flat();
+        if (logs.length > 0) commitData((prev) => mergeDayLogs(prev, logs));
+      })
+      .finally(() => setLoading(false));
+  }, [year]);
+
+  const logsByDate = useMemo(
+    () => new Map(data.dayLogs.filter((log) => log.date.startsWith(`${year}-`)).map((log) => [log.date, log])),
+    [data.dayLogs, year]
+  );
+
+  const legend =
+    mode === 'mood'
+      ? MOOD_SCALE.map((mood) => ({ label: MOOD_OPTIONS[mood].label, color: MOOD_OPTIONS[mood].color }))
+      : COMPLETION_LEVELS;
+
+  const exportImage = async (format: 'svg' | 'png') => {
+    if (!svgRef.current) return;
+    setError(null);
+    const svg = new XMLSerializer().serializeToString(svgRef.current);
+    const filename = `totono-life-${year}-${mode}.${format}`;
+    try {
+      if (format === 'svg') {
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), filename);
+      } else {
+        downloadBlob(await svgToPng(svg), filename);
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="year-pixels-container">
+      <div className="card year-pixels-header">
+        <div className="calendar-header">
+          <button className="calendar-nav-button" onClick={() => setYear(year - 1)} aria-label="前の年へ">
+            ‹
+          </button>
+          <h1 className="calendar-title">{year}年</h1>
+          <button
+            className="calendar-nav-button"
+            onClick={() => setYear(year + 1)}
+            disabled={year >= currentYear}
+            aria-label="次の年へ"
+          >
+            ›
+          </button>
+        </div>
+        <div className="routine-filter">
+          <button
+            type="button"
+            className={`routine-filter-button ${mode === 'mood' ? 'active' : ''}`}
+            onClick={() => setMode('mood')}
+          >
+            🎨 気分
+          </button>
+          <button
+            type="button"
+            className={`routine-filter-button ${mode === 'completion' ? 'active' : ''}`}
+            onClick={() => setMode('completion')}
+          >
+            ✅ 達成度
+          </button>
+        </div>
+        <Link to="/stats" className="year-pixels-link">
+          ← ふりかえりへ戻る
+        </Link>
+      </div>
+
+      <div className="card year-pixels-card">
+        {loading && <p className="year-pixels-status">記録を読み込み中...</p>}
+        <svg
+          ref={svgRef}
+          xmlns="http://www.w3.org/2000/svg"
+          className="year-pixels-svg"
+          viewBox={`0 0 ${SVG_WIDTH} ${SVG_HEIGHT}`}
+          width={SVG_WIDTH}
+          height={SVG_HEIGHT}
+          fontFamily={FONT}
+          role="img"
+          aria-label={`${year}年の${mode === 'mood' ? '気分' : '達成度'}`}
+        >
+          <rect width={SVG_WIDTH} height={SVG_HEIGHT} fill="#ffffff" rx={12} />
+          <g transform={`translate(${PADDING} ${PADDING})`}>
+            <text x={0} y={14} fontSize={13} fontWeight={700} fill="#333333">
+              {year} {mode === 'mood' ? '気分' : '達成度'}
+            </text>
+            {Array.from({ length: 12 }, (_, month) => (
+              <text
+                key={month}
+                x={LABEL_WIDTH + month * (CELL + GAP) + CELL / 2}
+                y={HEADER_HEIGHT - 8}
+                fontSize={9}
+                fill="#6b7280"
+                textAnchor="middle"
+              >
+                {month + 1}
+              </text>
+            ))}
+            {Array.from({ length: 31 }, (_, index) => (
+              <text
+                key={index}
+                x={LABEL_WIDTH - 6}
+                y={HEADER_HEIGHT + index * (CELL + GAP) + CELL - 3}
+                fontSize={8}
+                fill="#9aa0b0"
+                textAnchor="end"
+              >
+                {index + 1}
+              </text>
+            ))}
+            {Array.from({ length: 12 }, (_, month) => {
+              const daysInMonth = new Date(year, month + 1, 0).getDate();
+              return Array.from({ length: daysInMonth }, (_, index) => {
+                const date = `${year}-${pad(month + 1)}-${pad(index + 1)}`;
+                const log = logsByDate.get(date);
+                const isFuture = date > today;
+                return (
+                  <rect
+                    key={date}
+                    x={LABEL_WIDTH + month * (CELL + GAP)}
+                    y={HEADER_HEIGHT + index * (CELL + GAP)}
+                    width={CELL}
+                    height={CELL}
+                    rx={3}
+                    fill={isFuture ? FUTURE_COLOR : getPixelColor(log, mode)}
+                    stroke={date === today ? '#667eea' : '#e4e7f1'}
+                    strokeWidth={date === today ? 2 : 0.5}
+                  >
+                    <title>{date}</title>
+                  </rect>
+                );
+              });
+            })}
+            {legend.map((item, index) => {
+              const x = (index * GRID_WIDTH) / legend.length;
+              return (
+                <g key={item.label} transform={`translate(${x} ${GRID_HEIGHT + 12})`}>
+                  <rect width={10} height={10} rx={2} fill={item.color} />
+                  <text x={14} y={9} fontSize={8} fill="#4a4f63">
+                    {item.label}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+      </div>
+
+      <div className="card year-pixels-actions">
+        <button className="button" onClick={() => exportImage('png')}>
+          PNG で保存
+        </button>
+        <button className="button" onClick={() => exportImage('svg')}>
+          SVG で保存
+        </button>
+        {error && <p className="year-pixels-status">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,12 @@
-export type Mood = 'happy' | 'neutral' | 'sad';
+import type { CharacterTheme } from '../shared/requestSchemas';
+
+// 気分は 1（とても悪い）〜 5（とても良い）の5段階
+export type Mood = 1 | 2 | 3 | 4 | 5;
+
+// 気分に添える任意のタグ（それぞれ 1〜5 の5段階）
+export type MoodTag = 'sleepQuality' | 'energy' | 'stress' | 'social';
+
+export type MoodTags = Partial<Record<MoodTag, Mood>>;
 
 export type RoutineType = 'morning' | 'evening';
 
@@ -14,10 +22,31 @@ export interface AvatarConfig {
   accessory: AvatarAccessory;
 }
 
+// ルーティンを実施する日の決め方
+export type RoutineSchedule =
+  | { type: 'daily' }
+  | { type: 'weekly'; days: number[] } // 0 = 日曜 〜 6 = 土曜
+  | { type: 'interval'; everyDays: number; startDate: string }; // startDate から N 日ごと
+
+export interface RoutineTemplate {
+  id: string;
+  text: string;
+  schedule: RoutineSchedule;
+  targetTime?: string; // HH:mm（実施の目安時刻）
+}
+
 export interface RoutineItem {
   id: string;
+  templateId?: string; // 元になった RoutineTemplate の ID（名前の変更や並べ替えをしても履歴を追えるように）
   text: string;
   completed: boolean;
+  updatedAt?: string; // 端末間の編集を統合するための更新日時
+}
+
+// その日に付与済みの経験値（同じ項目で二重に獲得しないための記録）
+export interface SectionRewards {
+  routineExperience: Record<string, number>; // ルーティンID -> 付与した経験値
+  bonusExperience: number; // 全達成ボーナス（1日1回まで）
 }
 
 export interface DayLog {
@@ -25,21 +54,27 @@ export interface DayLog {
   morning: {
     routines: RoutineItem[];
     completed: boolean;
+    rewards?: SectionRewards;
   };
   evening: {
     routines: RoutineItem[];
     completed: boolean;
     mood?: Mood;
+    tags?: MoodTags;
+    journal?: string; // 1日のふりかえり（自由記述）
+    rewards?: SectionRewards;
   };
+  updatedAt?: string; // サーバー側の更新日時
 }
 
 export interface Character {
   level: number;
   experience: number;
   experienceToNext: number;
-  theme: 'wizard';
+  theme: CharacterTheme;
   evolutionStage: number;
   lastActiveDate: string;
+  updatedAt?: string; // サーバー側の更新日時
 }
 
 export interface UserProfile {
@@ -50,18 +85,128 @@ export interface UserProfile {
   isRegistered: boolean;
 }
 
+export interface StreakCount {
+  current: number;
+  best: number;
+}
+
+// 連続達成日数（全体・朝・夜）とフリーズの所持数。サーバーが全期間のログから計算する
+export interface StreakSummary {
+  overall: StreakCount;
+  morning: StreakCount;
+  evening: StreakCount;
+  freezesAvailable: number;
+  frozenDates: string[]; // フリーズで守られた日
+}
+
+// 統計の集計期間（日数）
+export type StatsPeriod = 7 | 30 | 90;
+
+export interface CompletionRate {
+  scheduled: number; // 実施予定だった回数（日数）
+  completed: number;
+  rate: number; // 0〜1（予定が無ければ 0）
+}
+
+export interface RoutineStats extends CompletionRate {
+  templateId: string;
+  section: RoutineType;
+  text: string;
+}
+
+export interface WeekdayStats extends CompletionRate {
+  weekday: number; // 0 = 日曜 〜 6 = 土曜
+}
+
+// 夜のルーティンを達成した日/しなかった日の、翌日の気分の平均（1〜5）
+export interface MoodCorrelation {
+  afterCompleted: { days: number; averageScore: number | null };
+  afterMissed: { days: number; averageScore: number | null };
+}
+
+export interface StatsSummary {
+  period: StatsPeriod;
+  from: string;
+  to: string;
+  loggedDays: number;
+  routines: RoutineStats[];
+  weekdays: WeekdayStats[];
+  bestWeekday: number | null;
+  worstWeekday: number | null;
+  sections: Record<RoutineType, CompletionRate>;
+  moods: Record<Mood, number>;
+  moodCorrelation: MoodCorrelation;
+}
+
 export interface AppData {
   user: UserProfile;
   character: Character;
-  defaultMorningRoutines: string[];
-  defaultEveningRoutines: string[];
+  defaultMorningRoutines: RoutineTemplate[];
+  defaultEveningRoutines: RoutineTemplate[];
   dayLogs: DayLog[];
+  streaks?: StreakSummary;
   settings: {
     morningNotificationTime: string; // HH:mm
     eveningNotificationTime: string; // HH:mm
+    timeZone: string; // IANA タイムゾーン（例: Asia/Tokyo）。「今日」の判定に使う
+    dayStartTime: string; // HH:mm。この時刻より前は前日の記録として扱う
+    backfillGraceDays: number; // 何日前までの記録を後から修正できるか
   };
 }
 
+// API のリクエスト本文（shared/requestSchemas.ts のスキーマで検証する）
+
+// PUT /api/routine-settings
+export interface RoutineSettingsRequest {
+  defaultMorningRoutines: RoutineTemplate[];
+  defaultEveningRoutines: RoutineTemplate[];
+  settings: Pick<AppData['settings'], 'morningNotificationTime' | 'eveningNotificationTime'> &
+    Partial<Pick<AppData['settings'], 'timeZone' | 'dayStartTime' | 'backfillGraceDays'>>;
+}
+
+// PUT /api/character（見た目だけを変更する）
+export interface CharacterRequest {
+  character: { theme: CharacterTheme };
+}
+
+// PATCH /api/day-logs/:date（指定したセクションだけを更新する）
+export interface DayLogPatchRequest {
+  morning?: DayLog['morning'];
+  evening?: DayLog['evening'];
+  baseUpdatedAt?: string; // 端末が最後に受け取ったサーバー側の更新日時
+}
+
+// POST /api/day-logs/bulk
+export interface BulkDayLogsRequest {
+  dayLogs: DayLog[];
+}
+
+// PUT /api/avatar
+export interface ProfileRequest {
+  displayName: string;
+  email?: string; // 空文字はメールアドレスの削除
+  avatar?: AvatarConfig;
+}
+
+// POST /api/register
+export interface RegisterRequest extends ProfileRequest {
+  timeZone?: string;
+}
+
+export interface ChatHistoryItem {
+  sender: 'user' | 'character';
+  text: string;
+}
+
+// POST /api/chat
+export interface ChatRequest {
+  message: string;
+  level?: number;
+  experienceRatio?: number;
+  history?: ChatHistoryItem[];
+  userName?: string;
+}
+
 export const createDefaultAvatarConfig = (): AvatarConfig => ({
   skinTone: '#fcd7b8',
   hairColor: '#5d4632',
@@ -1,21 +1,74 @@
 import {
   AppData,
   AvatarConfig,
+  Character,
   DayLog,
+  StatsPeriod,
+  StatsSummary,
+  StreakSummary,
   UserProfile,
   createDefaultAvatarConfig,
 } from '../types';
+import { DEFAULT_DAY_START_TIME, formatDateKey, getBrowserTimeZone, getToday, isValidDayStartTime } from '../../shared/date';
+import { BackupFile, EXPORT_CONTENT_TYPES, ExportFormat, getExportFilename, serialiseExport } from '../../shared/export';
+import { BULK_DAY_LOG_LIMIT } from '../../shared/habitImport';
+import { ImportMode, ImportSummary } from '../../shared/import';
+import { normaliseEveningJournal } from '../../shared/mood';
+import {
+  applyRoutineEvent,
+  DEFAULT_BACKFILL_GRACE_DAYS,
+  getExperienceRate,
+  isValidBackfillGraceDays,
+  RoutineEvent,
+} from '../../shared/routineEvents';
+import { createScheduledDayLog, normaliseRoutineTemplates } from '../../shared/schedule';
+import { computeStats } from '../../shared/stats';
+import { computeStreakSummary } from '../../shared/streaks';
+import { enqueueMutation, getPendingMutations, removePendingMutation, savePendingMutation } from './outbox';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
 const USER_ID_KEY = 'user-id';
 
-// 簡易的なユーザーID（実際のアプリでは認証システムから取得）
-function getUserId(): string {
-  let userId = peekUserId();
-  if (!userId) {
-    userId = `user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+let sessionPromise: Promise<string> | null = null;
+
+// サーバーが発行するセッション（HTTP-only Cookie）を確立し、ユーザーIDを返す
+export function ensureSession(): Promise<string> {
+  if (!sessionPromise) {
+    sessionPromise = fetchSession().catch((error) => {
+      sessionPromise = null;
+      throw error;
+    });
+  }
+  return sessionPromise;
+}
+
+async function fetchSession(): Promise<string> {
+  const current = await fetch(`${API_BASE_URL}/auth`);
+  if (current.ok) {
+    const { userId } = await current.json();
     setUserId(userId);
+    return userId;
+  }
+  if (current.status !== 401) {
+    throw new Error('Failed to check session');
+  }
+
+  // セッションが無ければゲストとして開始（旧バージョンの端末IDがあれば引き継ぎを試みる）
+  const response = await fetch(`${API_BASE_URL}/auth`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      action: 'guest',
+      legacyUserId: peekUserId(),
+    }),
+  });
+  if (!response.ok) {
+    throw new Error('Failed to start session');
   }
+  const { userId } = await response.json();
+  setUserId(userId);
   return userId;
 }
 
@@ -31,13 +84,25 @@ function createDefaultUser(): UserProfile {
 
 export async function loadData(): Promise<AppData> {
   try {
-    const userId = getUserId();
-    const response = await fetch(`${API_BASE_URL}/data?userId=${userId}`);
+    await ensureSession();
+    // 未送信の変更が残っている間はサーバーのデータが古いので、端末側のデータを使う
+    const flushed = await flushOutbox();
+    if (!flushed) {
+      return loadDataFromLocalStorage();
+    }
+    const response = await fetch(`${API_BASE_URL}/data`);
     if (!response.ok) {
       throw new Error('Failed to load data');
     }
     const data = await response.json();
-    return normaliseAppData(data);
+    // 取得し直した直近30日分に置き換わるので、過去の月は再度読み込めるようにする
+    loadedMonths.clear();
+    const normalised = normaliseAppData({ ...data, streaks: (await fetchStreaks()) ?? undefined });
+    if (!data.settings?.timeZone) {
+      // サーバーにタイムゾーンが未登録なら端末のタイムゾーンを保存しておく
+      sendMutation('/routine-settings', 'PUT', pickRoutineSettings(normalised)).catch(() => {});
+    }
+    return normalised;
   } catch (error) {
     console.error('Failed to load data from API:', error);
     // フォールバック: ローカルストレージから読み込み
@@ -45,26 +110,388 @@ export async function loadData(): Promise<AppData> {
   }
 }
 
-export async function saveData(data: AppData): Promise<void> {
+type DayLogPatch = Partial<Pick<DayLog, 'morning' | 'evening'>>;
+
+export interface ServerRecords {
+  character?: Character;
+  dayLogs: DayLog[];
+}
+
+function isRetryable(response: Response): boolean {
+  return response.status >= 500;
+}
+
+function sendRequest(path: string, method: string, body: unknown): Promise<Response> {
+  return fetch(`${API_BASE_URL}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+// 変更を送信する。オフライン・サーバー障害時はアウトボックスに積んで null を返す
+async function sendMutation<T>(path: string, method: string, body: Record<string, unknown>): Promise<T | null> {
+  // 先に積まれている変更を追い越さないよう、キューが空でなければ後ろに並べる
+  const pending = await getPendingMutations();
+  if (pending.length > 0) {
+    await enqueueMutation(method, path, body);
+    return null;
+  }
+
+  let response: Response;
+  try {
+    response = await sendRequest(path, method, body);
+  } catch (error) {
+    await enqueueMutation(method, path, body);
+    return null;
+  }
+
+  if (isRetryable(response)) {
+    await enqueueMutation(method, path, body);
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to ${method} ${path}`);
+  }
+  return response.json();
+}
+
+const MAX_ATTEMPTS = 5;
+
+// アウトボックスの変更を古い順に再送する。すべて送信できたら true を返す
+export async function flushOutbox(): Promise<boolean> {
+  const pending = await getPendingMutations();
+
+  for (const mutation of pending) {
+    let response: Response;
+    try {
+      response = await sendRequest(mutation.path, mutation.method, mutation.body);
+    } catch (error) {
+      return false;
+    }
+
+    if (isRetryable(response) && mutation.attempts + 1 < MAX_ATTEMPTS) {
+      await savePendingMutation({ ...mutation, attempts: mutation.attempts + 1 });
+      return false;
+    }
+    if (!response.ok) {
+      console.error(`Dropped queued ${mutation.method} ${mutation.path}: ${response.status}`);
+    }
+    await removePendingMutation(mutation.id as number);
+  }
+
+  return true;
+}
+
+// オンライン復帰時に未送信の変更を再送し、送信しきれたら最新データを渡す
+export function watchConnectivity(onSynced: (data: AppData) => void): () => void {
+  const handleOnline = async () => {
+    const flushed = await flushOutbox();
+    if (flushed) {
+      onSynced(await loadData());
+    }
+  };
+  window.addEventListener('online', handleOnline);
+  return () => window.removeEventListener('online', handleOnline);
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function pickRoutineSettings(data: AppData) {
+  return {
+    defaultMorningRoutines: data.defaultMorningRoutines,
+    defaultEveningRoutines: data.defaultEveningRoutines,
+    settings: data.settings,
+  };
+}
+
+export async function saveDayLog(date: string, patch: DayLogPatch, baseUpdatedAt?: string): Promise<DayLog | null> {
+  await ensureSession();
+  const result = await sendMutation<{ dayLog: DayLog }>(`/day-logs/${date}`, 'PATCH', { ...patch, baseUpdatedAt });
+  return result?.dayLog ?? null;
+}
+
+export async function recordRoutineEvent(event: RoutineEvent): Promise<{ dayLog: DayLog; character: Character } | null> {
+  await ensureSession();
+  return sendMutation('/routine-events', 'POST', { ...event });
+}
+
+// チェック状態はすぐに反映し、経験値と連続記録はサーバーの計算結果で更新する。
+// 今日の画面からもカレンダーでの後からの記録からも、この経路で保存する
+export function commitRoutineEvent(
+  event: RoutineEvent,
+  commitData: (updater: (prev: AppData) => AppData) => void
+): void {
+  commitData((prev) => {
+    const today = getToday(prev.settings.timeZone, prev.settings.dayStartTime);
+    const { log } = applyRoutineEvent(getDayLog(prev, event.date), event, getExperienceRate(event.date, today));
+    return withDayLog(prev, log);
+  });
+  recordRoutineEvent(event)
+    .then(async (result) => {
+      if (result) {
+        commitData((prev) => ({ ...prev, character: result.character }));
+        const streaks = await fetchStreaks();
+        if (streaks) {
+          commitData((prev) => ({ ...prev, streaks }));
+        }
+      }
+    })
+    .catch((error) => {
+      console.error('Failed to record routine event:', error);
+    });
+}
+
+// 連続記録はフリーズの使用・獲得も含めてサーバーで確定させる
+export async function fetchStreaks(): Promise<StreakSummary | null> {
   try {
-    const userId = getUserId();
-    const response = await fetch(`${API_BASE_URL}/data?userId=${userId}`, {
+    await ensureSession();
+    const response = await fetch(`${API_BASE_URL}/streaks`);
+    if (!response.ok) {
+      throw new Error('Failed to load streaks');
+    }
+    return response.json();
+  } catch (error) {
+    console.error('Failed to load streaks:', error);
+    return null;
+  }
+}
+
+// 統計はサーバーの全履歴から集計する。取得できないときは手元のログから計算する
+export async function fetchStats(data: AppData, period: StatsPeriod): Promise<StatsSummary> {
+  try {
+    await ensureSession();
+    const response = await fetch(`${API_BASE_URL}/stats?period=${period}`);
+    if (!response.ok) {
+      throw new Error('Failed to load stats');
+    }
+    return response.json();
+  } catch (error) {
+    console.error('Failed to load stats:', error);
+    return computeStats(data.dayLogs, getToday(data.settings.timeZone, data.settings.dayStartTime), period);
+  }
+}
+
+// サーバーの全履歴を書き出す。取得できないときは端末にあるデータだけで作る
+export async function exportData(data: AppData, format: ExportFormat): Promise<{ blob: Blob; filename: string }> {
+  const today = getToday(data.settings.timeZone, data.settings.dayStartTime);
+  const filename = getExportFilename(format, today);
+  try {
+    await ensureSession();
+    const response = await fetch(`${API_BASE_URL}/export?format=${format}`);
+    if (!response.ok) {
+      throw new Error('Failed to export data');
+    }
+    return { blob: await response.blob(), filename };
+  } catch (error) {
+    console.error('Failed to export data from API:', error);
+    // サーバーから書き出した場合と同じ UID になるよう、セッションのユーザーIDを使う
+    const content = serialiseExport(format, data, today, peekUserId() ?? data.user.id);
+    return {
+      blob: new Blob([content], { type: EXPORT_CONTENT_TYPES[format] }),
+      filename,
+    };
+  }
+}
+
+// バックアップを取り込む。dryRun では何も変えずに変更内容の集計だけを返す。
+// 取り込みはサーバー上で行うので、オフラインのときは失敗させる
+export async function importBackup(
+  backup: BackupFile,
+  mode: ImportMode,
+  dryRun: boolean
+): Promise<{ summary: ImportSummary; data: AppData | null }> {
+  await ensureSession();
+  // 未送信の変更が取り込み後のデータを上書きしないよう、先に送っておく
+  if (!dryRun && !(await flushOutbox())) {
+    throw new Error('未送信の変更があります。オンラインになってからもう一度お試しください');
+  }
+
+  const response = await fetch(`${API_BASE_URL}/import`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ backup, mode, dryRun }),
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error([result.error || 'バックアップの取り込みに失敗しました', ...(result.details ?? [])].join('\n'));
+  }
+  if (dryRun) {
+    return { summary: result.summary, data: null };
+  }
+
+  const appData = await loadData();
+  saveDataToLocalStorage(appData);
+  return { summary: result.summary, data: appData };
+}
+
+// 他のアプリから取り込んだ日次ログを上限件数ずつ送り、サーバーで統合された結果を返す。
+// 途中で失敗しても、取り込み直せば追加済みの項目は重複しない
+export async function importDayLogs(dayLogs: DayLog[]): Promise<DayLog[]> {
+  await ensureSession();
+  const saved: DayLog[] = [];
+  for (let start = 0; start < dayLogs.length; start += BULK_DAY_LOG_LIMIT) {
+    const response = await fetch(`${API_BASE_URL}/day-logs/bulk`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(data),
+      body: JSON.stringify({ dayLogs: dayLogs.slice(start, start + BULK_DAY_LOG_LIMIT) }),
     });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || '記録の取り込みに失敗しました');
+    }
+    saved.push(...result.dayLogs);
+  }
+  return saved;
+}
+
+// サーバーの計算結果がまだ無い（オフライン等）ときは手元のログから計算する
+export function getStreaks(data: AppData): StreakSummary {
+  return data.streaks ?? computeStreakSummary(data.dayLogs, getToday(data.settings.timeZone, data.settings.dayStartTime));
+}
+
+// /data は直近30日分しか返さないので、それより前は月単位で /day-logs から取得する。
+// 取得済みの月と取得中の月を覚えておき、同じ月を何度も取りに行かない
+const loadedMonths = new Set<string>();
+const pendingMonths = new Map<string, Promise<DayLog[]>>();
+
+export async function fetchDayLogs(from: string, to: string): Promise<DayLog[]> {
+  await ensureSession();
+  const dayLogs: DayLog[] = [];
+  let cursor: string | null = null;
+  do {
+    const params = new URLSearchParams({ from, to });
+    if (cursor) params.set('cursor', cursor);
+    const response = await fetch(`${API_BASE_URL}/day-logs?${params}`);
     if (!response.ok) {
-      throw new Error('Failed to save data');
+      throw new Error('Failed to load day logs');
     }
-    // 成功したらローカルストレージにもバックアップ
-    saveDataToLocalStorage(data);
+    const page: { dayLogs: DayLog[]; nextCursor: string | null } = await response.json();
+    dayLogs.push(...page.dayLogs);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return dayLogs;
+}
+
+// month は Date#getMonth と同じ 0 始まり
+export function loadDayLogsForMonth(year: number, month: number): Promise<DayLog[]> {
+  const from = formatDateKey(new Date(year, month, 1));
+  const key = from.slice(0, 7);
+  if (loadedMonths.has(key)) return Promise.resolve([]);
+
+  let pending = pendingMonths.get(key);
+  if (!pending) {
+    pending = fetchDayLogs(from, formatDateKey(new Date(year, month + 1, 0)))
+      .then((dayLogs) => {
+        loadedMonths.add(key);
+        return dayLogs;
+      })
+      .catch((error) => {
+        // 失敗した月は次に表示したときに取り直す
+        console.error('Failed to load day logs:', error);
+        return [];
+      })
+      .finally(() => pendingMonths.delete(key));
+    pendingMonths.set(key, pending);
+  }
+  return pending;
+}
+
+// 取得した過去のログを追加する。端末側にすでにある日は未送信の変更があり得るのでそのまま残す
+export function mergeDayLogs(data: AppData, logs: DayLog[]): AppData {
+  const known = new Set(data.dayLogs.map((log) => log.date));
+  const added = logs.filter((log) => !known.has(log.date));
+  return added.length > 0 ? { ...data, dayLogs: [...data.dayLogs, ...added] } : data;
+}
+
+export function withDayLog(data: AppData, log: DayLog): AppData {
+  const exists = data.dayLogs.some((entry) => entry.date === log.date);
+  return {
+    ...data,
+    dayLogs: exists
+      ? data.dayLogs.map((entry) => (entry.date === log.date ? log : entry))
+      : [...data.dayLogs, log],
+  };
+}
+
+// 前回同期した状態との差分（キャラクター・ルーティン設定・変更のあった日次ログ）だけを送信し、
+// サーバーが返した最新のレコード（他端末の変更と統合済み）を返す
+export async function syncChanges(previous: AppData, next: AppData): Promise<ServerRecords> {
+  const records: ServerRecords = { dayLogs: [] };
+
+  try {
+    await ensureSession();
+    const requests: Promise<void>[] = [];
+
+    // レベル・経験値はサーバーが計算するので、送るのは見た目の設定だけ
+    if (previous.character.theme !== next.character.theme) {
+      requests.push(
+        sendMutation<{ character: Character }>('/character', 'PUT', {
+          character: { theme: next.character.theme },
+        }).then((result) => {
+          if (result) records.character = result.character;
+        })
+      );
+    }
+
+    const nextSettings = pickRoutineSettings(next);
+    if (!isSame(pickRoutineSettings(previous), nextSettings)) {
+      requests.push(sendMutation('/routine-settings', 'PUT', nextSettings).then(() => undefined));
+    }
+
+    const previousLogs = new Map(previous.dayLogs.map((log) => [log.date, log]));
+    for (const log of next.dayLogs) {
+      const before = previousLogs.get(log.date);
+      const patch: DayLogPatch = {};
+      if (!before || !isSame(before.morning, log.morning)) {
+        patch.morning = log.morning;
+      }
+      if (!before || !isSame(before.evening, log.evening)) {
+        patch.evening = log.evening;
+      }
+      if (patch.morning || patch.evening) {
+        requests.push(
+          saveDayLog(log.date, patch, before?.updatedAt ?? log.updatedAt).then((dayLog) => {
+            if (dayLog) records.dayLogs.push(dayLog);
+          })
+        );
+      }
+    }
+
+    await Promise.all(requests);
   } catch (error) {
-    console.error('Failed to save data to API:', error);
-    // フォールバック: ローカルストレージに保存
-    saveDataToLocalStorage(data);
+    console.error('Failed to sync data to API:', error);
+  } finally {
+    saveDataToLocalStorage(next);
   }
+
+  return records;
+}
+
+// サーバーから返ったレコードを反映する。送信後に端末側で再度変更されたレコードは
+// 次回の送信で統合されるため、ここでは上書きしない
+export function applyServerRecords(current: AppData, sent: AppData, records: ServerRecords): AppData {
+  const sentLogs = new Map(sent.dayLogs.map((log) => [log.date, log]));
+  const serverLogs = new Map(records.dayLogs.map((log) => [log.date, log]));
+
+  const dayLogs = current.dayLogs.map((log) => {
+    const serverLog = serverLogs.get(log.date);
+    return serverLog && isSame(log, sentLogs.get(log.date)) ? serverLog : log;
+  });
+
+  const character = records.character && isSame(current.character, sent.character)
+    ? records.character
+    : current.character;
+
+  return { ...current, character, dayLogs };
 }
 
 // ローカルストレージのフォールバック関数
@@ -93,63 +520,57 @@ function saveDataToLocalStorage(data: AppData): void {
 }
 
 function getDefaultData(): AppData {
+  const timeZone = getBrowserTimeZone();
   return {
     user: createDefaultUser(),
     character: {
       level: 1,
       experience: 0,
       experienceToNext: 100,
-      theme: 'wizard',
+      theme: 'animal',
       evolutionStage: 0,
-      lastActiveDate: new Date().toISOString().split('T')[0],
+      lastActiveDate: getToday(timeZone, DEFAULT_DAY_START_TIME),
     },
-    defaultMorningRoutines: [
+    defaultMorningRoutines: normaliseRoutineTemplates([
       '歯磨き',
       '水を飲む',
       '布団をたたむ',
       'ストレッチ',
-    ],
-    defaultEveningRoutines: [
+    ], 'morning'),
+    defaultEveningRoutines: normaliseRoutineTemplates([
       '日記を書く',
       'スマホを置く',
       '明日の準備',
       '深呼吸',
-    ],
+    ], 'evening'),
     dayLogs: [],
     settings: {
       morningNotificationTime: '08:00',
       eveningNotificationTime: '22:00',
+      timeZone,
+      dayStartTime: DEFAULT_DAY_START_TIME,
+      backfillGraceDays: DEFAULT_BACKFILL_GRACE_DAYS,
     },
   };
 }
 
+// 記録が無ければ、その日に実施予定のルーティンだけを並べたログを返す（data には追加しない）
+export function getDayLog(data: AppData, date: string): DayLog {
+  return (
+    data.dayLogs.find((l) => l.date === date) ??
+    createScheduledDayLog(date, data.defaultMorningRoutines, data.defaultEveningRoutines)
+  );
+}
+
 export function getTodayLog(data: AppData): DayLog {
-  const today = new Date().toISOString().split('T')[0];
+  const today = getToday(data.settings.timeZone, data.settings.dayStartTime);
   let log = data.dayLogs.find((l) => l.date === today);
 
   if (!log) {
-    log = {
-      date: today,
-      morning: {
-        routines: data.defaultMorningRoutines.map((text, idx) => ({
-          id: `morning-${idx}`,
-          text,
-          completed: false,
-        })),
-        completed: false,
-      },
-      evening: {
-        routines: data.defaultEveningRoutines.map((text, idx) => ({
-          id: `evening-${idx}`,
-          text,
-          completed: false,
-        })),
-        completed: false,
-      },
-    };
+    log = getDayLog(data, today);
     data.dayLogs.push(log);
     // 非同期で保存（エラーは無視）
-    saveData(data).catch(() => {});
+    saveDayLog(log.date, { morning: log.morning, evening: log.evening }).catch(() => {});
   }
 
   return log;
@@ -171,12 +592,28 @@ function normaliseAppData(raw: Partial<AppData>): AppData {
   return {
     user,
     character: raw.character ?? defaults.character,
-    defaultMorningRoutines: raw.defaultMorningRoutines ?? defaults.defaultMorningRoutines,
-    defaultEveningRoutines: raw.defaultEveningRoutines ?? defaults.defaultEveningRoutines,
-    dayLogs: raw.dayLogs ?? defaults.dayLogs,
+    defaultMorningRoutines: raw.defaultMorningRoutines
+      ? normaliseRoutineTemplates(raw.defaultMorningRoutines, 'morning')
+      : defaults.defaultMorningRoutines,
+    defaultEveningRoutines: raw.defaultEveningRoutines
+      ? normaliseRoutineTemplates(raw.defaultEveningRoutines, 'evening')
+      : defaults.defaultEveningRoutines,
+    // 端末に保存された旧3段階の気分も5段階に揃える
+    dayLogs: (raw.dayLogs ?? defaults.dayLogs).map((log) => ({
+      ...log,
+      evening: { ...log.evening, ...normaliseEveningJournal(log.evening) },
+    })),
+    streaks: raw.streaks,
     settings: {
       ...defaults.settings,
       ...(raw.settings ?? {}),
+      timeZone: raw.settings?.timeZone || defaults.settings.timeZone,
+      dayStartTime: isValidDayStartTime(raw.settings?.dayStartTime)
+        ? raw.settings.dayStartTime.slice(0, 5)
+        : defaults.settings.dayStartTime,
+      backfillGraceDays: isValidBackfillGraceDays(raw.settings?.backfillGraceDays)
+        ? raw.settings.backfillGraceDays
+        : defaults.settings.backfillGraceDays,
     },
   };
 }
@@ -188,7 +625,7 @@ export interface RegisterPayload {
 }
 
 export async function registerUser(payload: RegisterPayload): Promise<AppData> {
-  const userId = getUserId();
+  await ensureSession();
 
   const response = await fetch(`${API_BASE_URL}/register`, {
     method: 'POST',
@@ -196,10 +633,10 @@ export async function registerUser(payload: RegisterPayload): Promise<AppData> {
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({
-      userId,
       displayName: payload.displayName,
       email: payload.email,
       avatar: payload.avatar,
+      timeZone: getBrowserTimeZone(),
     }),
   });
 
@@ -220,9 +657,9 @@ export interface UpdateProfilePayload {
 }
 
 export async function updateUserProfile(payload: UpdateProfilePayload): Promise<UserProfile> {
-  const userId = getUserId();
+  await ensureSession();
 
-  const response = await fetch(`${API_BASE_URL}/avatar?userId=${userId}`, {
+  const response = await fetch(`${API_BASE_URL}/avatar`, {
     method: 'PUT',
     headers: {
       'Content-Type': 'application/json',
@@ -277,10 +714,36 @@ export function clearUserId(): void {
   }
 }
 
-export async function switchUser(userId: string): Promise<AppData> {
+// メールのログインリンクを確認し、そのアカウントでログインする（リンクは一度だけ使える）
+export async function confirmLoginLink(token: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/auth`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action: 'verify-link', token }),
+  });
+
+  if (!response.ok) {
+    throw new Error('ログインリンクの確認に失敗しました');
+  }
+
+  const { userId } = await response.json();
   setUserId(userId);
-  const data = await loadData();
-  saveDataToLocalStorage(data);
-  return data;
 }
 
+export async function requestLoginLink(email: string): Promise<{ devLink?: string }> {
+  const response = await fetch(`${API_BASE_URL}/auth`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action: 'request-link', email }),
+  });
+
+  if (!response.ok) {
+    throw new Error('ログインリンクの送信に失敗しました');
+  }
+
+  return response.json();
+}
@@ -0,0 +1,12 @@
+// ブラウザ内で作ったファイルをダウンロードさせる
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // クリック直後に解放するとダウンロードが始まらないブラウザがあるので少し待つ
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
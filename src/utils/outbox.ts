@@ -0,0 +1,108 @@
+// 送信できなかった変更を IndexedDB に保持し、オンライン復帰時に順番に再送するためのキュー
+
+export interface PendingMutation {
+  id?: number;
+  method: string;
+  path: string;
+  body: Record<string, unknown>;
+  attempts: number;
+  createdAt: string;
+}
+
+const DB_NAME = 'totono-life';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+// IndexedDB が使えない環境（プライベートモード等）向けのメモリ上の代替
+let memoryQueue: PendingMutation[] = [];
+let memoryId = 0;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('Failed to open outbox database:', request.error);
+      resolve(null);
+    };
+  });
+}
+
+function runRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+  try {
+    const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    return await runRequest(callback(store));
+  } finally {
+    db.close();
+  }
+}
+
+export async function getPendingMutations(): Promise<PendingMutation[]> {
+  const stored = await withStore('readonly', (store) => store.getAll() as IDBRequest<PendingMutation[]>);
+  if (stored === null) {
+    return [...memoryQueue];
+  }
+  return stored.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+export async function savePendingMutation(mutation: PendingMutation): Promise<void> {
+  const saved = await withStore('readwrite', (store) => store.put(mutation));
+  if (saved !== null) return;
+
+  if (mutation.id === undefined) {
+    memoryQueue.push({ ...mutation, id: ++memoryId });
+  } else {
+    memoryQueue = memoryQueue.map((entry) => (entry.id === mutation.id ? mutation : entry));
+  }
+}
+
+export async function removePendingMutation(id: number): Promise<void> {
+  const removed = await withStore('readwrite', (store) => store.delete(id));
+  if (removed === null) {
+    memoryQueue = memoryQueue.filter((entry) => entry.id !== id);
+  }
+}
+
+// 同じリソースへの未送信の更新（PUT/PATCH）があれば1件にまとめる（リソース同士は独立しているので順序は問わない）。
+// baseUpdatedAt は最初の変更のもの（サーバーで競合を検出する基準）を残す。
+// POST はイベントとして1件ずつ再送する。
+export async function enqueueMutation(method: string, path: string, body: Record<string, unknown>): Promise<void> {
+  const pending = await getPendingMutations();
+  const existing = method === 'POST'
+    ? undefined
+    : pending.find((entry) => entry.method === method && entry.path === path);
+
+  if (existing) {
+    await savePendingMutation({
+      ...existing,
+      body: { ...existing.body, ...body, baseUpdatedAt: existing.body.baseUpdatedAt },
+    });
+    return;
+  }
+
+  await savePendingMutation({
+    method,
+    path,
+    body,
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  });
+}
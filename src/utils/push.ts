@@ -0,0 +1,79 @@
+// Web Push の購読管理（通知時間になるとサーバーの定期実行からリマインダーが届く）
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+
+export const isPushSupported = (): boolean =>
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window;
+
+// VAPID の公開鍵（base64url）を PushManager が受け取れる形に変換する
+function toApplicationServerKey(base64Url: string): ArrayBuffer {
+  const padding = '='.repeat((4 - (base64Url.length % 4)) % 4);
+  const base64 = (base64Url + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
+export async function subscribeToPush(): Promise<PushSubscription> {
+  if (!isPushSupported()) {
+    throw new Error('このブラウザはプッシュ通知に対応していません');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('通知が許可されませんでした');
+  }
+
+  const keyResponse = await fetch(`${API_BASE_URL}/push-subscriptions`);
+  if (!keyResponse.ok) {
+    throw new Error('プッシュ通知の設定を取得できませんでした');
+  }
+  const { publicKey } = await keyResponse.json();
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: toApplicationServerKey(publicKey),
+    }));
+
+  const response = await fetch(`${API_BASE_URL}/push-subscriptions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ subscription: subscription.toJSON() }),
+  });
+  if (!response.ok) {
+    throw new Error('プッシュ通知の登録に失敗しました');
+  }
+
+  return subscription;
+}
+
+export async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  await fetch(`${API_BASE_URL}/push-subscriptions`, {
+    method: 'DELETE',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  });
+  await subscription.unsubscribe();
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { createClient, signInAsGuest, useApiServer } from './helpers';
+
+const baseUrl = useApiServer();
+
+// 本番以外ではログインリンクがレスポンスの devLink に含まれる
+async function requestLink(client: ReturnType<typeof createClient>, email: string) {
+  const { body } = await client.request('/api/auth', { method: 'POST', body: { action: 'request-link', email } });
+  return new URL(body.devLink).searchParams.get('token') as string;
+}
+
+describe('/api/auth', () => {
+  it('リンクを開いただけではログインせず、確認画面へ送る', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const token = await requestLink(client, 'totono@example.com');
+
+    const opened = await createClient(baseUrl).request(`/api/auth?token=${encodeURIComponent(token)}`);
+    expect(opened.status).toBe(302);
+    expect(opened.headers.get('location')).toBe(`/login?token=${encodeURIComponent(token)}`);
+    expect(opened.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('リンクを要求したセッションで確認すると、そのアカウントにメールを紐付ける', async () => {
+    const { client, userId } = await signInAsGuest(baseUrl);
+    const token = await requestLink(client, 'totono@example.com');
+
+    const { status, body } = await client.request('/api/auth', { method: 'POST', body: { action: 'verify-link', token } });
+    expect(status).toBe(200);
+    expect(body.userId).toBe(userId);
+  });
+
+  it('別のセッションで確認しても、そのセッションのアカウントにはメールを紐付けない', async () => {
+    const attacker = await signInAsGuest(baseUrl);
+    const token = await requestLink(attacker.client, 'attacker@example.com');
+
+    const victim = await signInAsGuest(baseUrl);
+    const { body } = await victim.client.request('/api/auth', { method: 'POST', body: { action: 'verify-link', token } });
+    expect(body.userId).not.toBe(victim.userId);
+    expect(body.userId).not.toBe(attacker.userId);
+
+    // 被害者のアカウントは同じメールのリンクでも開けない
+    const again = await requestLink(attacker.client, 'attacker@example.com');
+    const login = await createClient(baseUrl).request('/api/auth', { method: 'POST', body: { action: 'verify-link', token: again } });
+    expect(login.body.userId).toBe(body.userId);
+  });
+
+  it('同じリンクは二度使えない', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const token = await requestLink(client, 'totono@example.com');
+
+    expect((await client.request('/api/auth', { method: 'POST', body: { action: 'verify-link', token } })).status).toBe(200);
+    const reused = await createClient(baseUrl).request('/api/auth', { method: 'POST', body: { action: 'verify-link', token } });
+    expect(reused.status).toBe(400);
+  });
+
+  it('リンクの宛先はリクエストの Host ではなく APP_URL を使う', async () => {
+    process.env.APP_URL = 'https://totono.example.com/';
+    try {
+      const { client } = await signInAsGuest(baseUrl);
+      const { body } = await client.request('/api/auth', { method: 'POST', body: { action: 'request-link', email: 'totono@example.com' } });
+      expect(body.devLink.startsWith('https://totono.example.com/api/auth?token=')).toBe(true);
+    } finally {
+      delete process.env.APP_URL;
+    }
+  });
+});
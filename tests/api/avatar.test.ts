@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { signInAsGuest, useApiServer } from './helpers';
+
+const baseUrl = useApiServer();
+
+const avatar = {
+  skinTone: '#f1c27d',
+  hairColor: '#222222',
+  clothingColor: '#ff0000',
+  outlineColor: '#000000',
+  accentColor: '#00ff00',
+  cheekColor: '#ff99aa',
+  accessory: 'hat',
+};
+
+describe('/api/avatar', () => {
+  it('未登録のユーザーにはゲストのプロフィールを返す', async () => {
+    const { client, userId } = await signInAsGuest(baseUrl);
+    const { status, body } = await client.request('/api/avatar');
+
+    expect(status).toBe(200);
+    expect(body.user).toMatchObject({ id: userId, displayName: 'ゲスト', email: '', isRegistered: false });
+  });
+
+  it('プロフィールとアバターを更新する', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const updated = await client.request('/api/avatar', {
+      method: 'PUT',
+      body: { displayName: 'ととの', email: 'totono@example.com', avatar },
+    });
+    expect(updated.status).toBe(200);
+    expect(updated.body.user).toMatchObject({ displayName: 'ととの', avatar, isRegistered: true });
+
+    const { body } = await client.request('/api/avatar');
+    expect(body.user).toMatchObject({ displayName: 'ととの', email: 'totono@example.com', avatar });
+  });
+
+  it('アバターの色が不正なら 400 を返す', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const { status, body } = await client.request('/api/avatar', {
+      method: 'PUT',
+      body: { displayName: 'ととの', avatar: { ...avatar, hairColor: 'black', accessory: 'crown' } },
+    });
+
+    expect(status).toBe(400);
+    expect(body.issues.map((issue: any) => issue.path)).toEqual(['avatar.hairColor', 'avatar.accessory']);
+  });
+});
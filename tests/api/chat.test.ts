@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { createClient, useApiServer } from './helpers';
+
+const baseUrl = useApiServer();
+
+describe('/api/chat', () => {
+  it('キャラクターの返事と親密度を返す', async () => {
+    const { status, body } = await createClient(baseUrl).request('/api/chat', {
+      method: 'POST',
+      body: { message: 'おはよう！', level: 3, experienceRatio: 0.5, userName: 'ととの' },
+    });
+
+    expect(status).toBe(200);
+    expect(typeof body.reply).toBe('string');
+    expect(body.affinity).toBeGreaterThanOrEqual(5);
+    expect(body.affinity).toBeLessThanOrEqual(100);
+    expect(['partner', 'friend']).toContain(body.tier);
+  });
+
+  it('会話を重ねるほど親密度が上がる', async () => {
+    const client = createClient(baseUrl);
+    const history = Array.from({ length: 6 }, (_, index) => ({
+      sender: index % 2 === 0 ? 'user' : 'character',
+      text: 'こんにちは',
+    }));
+    const first = await client.request('/api/chat', { method: 'POST', body: { message: 'やあ', level: 1 } });
+    const later = await client.request('/api/chat', { method: 'POST', body: { message: 'やあ', level: 1, history } });
+
+    expect(later.body.affinity).toBeGreaterThan(first.body.affinity);
+  });
+
+  it('メッセージが空なら 400、POST 以外は 405 を返す', async () => {
+    const client = createClient(baseUrl);
+    const empty = await client.request('/api/chat', { method: 'POST', body: { message: '  ' } });
+    expect(empty.status).toBe(400);
+    expect(empty.body.issues).toEqual([{ path: 'message', message: '入力してください' }]);
+
+    expect((await client.request('/api/chat')).status).toBe(405);
+  });
+});
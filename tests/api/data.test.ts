@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { getStorage } from '../../api/lib/storage/index.js';
+import { createClient, signInAsGuest, useApiServer } from './helpers';
+
+const baseUrl = useApiServer();
+
+// UUID 以外のIDは旧形式として振り直されるため、UUID を使う
+const TEMPLATE_ID = '6f1c2d0e-8a4b-4c3d-9e2f-1a2b3c4d5e6f';
+
+const dayLog = (date: string) => ({
+  date,
+  morning: { routines: [{ id: 'r1', templateId: TEMPLATE_ID, text: '水を飲む', completed: true }], completed: true },
+  evening: { routines: [], completed: false, mood: 'happy', journal: 'よく眠れた' },
+});
+
+describe('/api/data', () => {
+  it('ログインしていなければ 401 を返す', async () => {
+    const { status } = await createClient(baseUrl).request('/api/data');
+    expect(status).toBe(401);
+  });
+
+  it('初めてのユーザーには既定のデータを返す', async () => {
+    const { client, userId } = await signInAsGuest(baseUrl);
+    const { status, body } = await client.request('/api/data');
+
+    expect(status).toBe(200);
+    expect(body.user).toMatchObject({ id: userId, displayName: 'ゲスト', isRegistered: false });
+    expect(body.character).toMatchObject({ level: 1, experience: 0 });
+    expect(body.defaultMorningRoutines.map((template: any) => template.text)).toContain('歯磨き');
+    // 旧形式の既定ルーティンには UUID が振られる
+    expect(body.defaultMorningRoutines.every((template: any) => typeof template.id === 'string')).toBe(true);
+    expect(body.dayLogs).toEqual([]);
+  });
+
+  it('旧形式のルーティンに振るIDは、移行をやり直しても変わらない', async () => {
+    const { client, userId } = await signInAsGuest(baseUrl);
+    const { body: first } = await client.request('/api/data');
+    const templateId = first.defaultMorningRoutines[0].id;
+    await client.request('/api/routine-events', { method: 'POST', body: { section: 'morning', routineId: templateId, completed: true } });
+
+    // 同時に届いた別の読み込みが、移行前の定義を読んでから移行し直した場合
+    const storage = getStorage();
+    const { settings } = await storage.routineSettings.find(userId);
+    await storage.routineSettings.save(userId, {
+      defaultMorningRoutines: first.defaultMorningRoutines.map((template: any) => template.text),
+      defaultEveningRoutines: first.defaultEveningRoutines.map((template: any) => template.text),
+      settings,
+    } as any);
+
+    const { body } = await client.request('/api/data');
+    expect(body.defaultMorningRoutines.map((template: any) => template.id)).toEqual(
+      first.defaultMorningRoutines.map((template: any) => template.id)
+    );
+    expect(body.dayLogs[0].morning.routines.find((item: any) => item.completed).templateId).toBe(templateId);
+  });
+
+  it('保存したルーティンと日次ログを返す', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const { body: initial } = await client.request('/api/data');
+
+    await client.request('/api/character', { method: 'PUT', body: { character: { theme: 'robot' } } });
+    await client.request('/api/routine-settings', {
+      method: 'PUT',
+      body: {
+        defaultMorningRoutines: [{ id: TEMPLATE_ID, text: '水を飲む', schedule: { type: 'daily' } }],
+        defaultEveningRoutines: initial.defaultEveningRoutines,
+        settings: { ...initial.settings, timeZone: 'Asia/Tokyo', backfillGraceDays: 3 },
+      },
+    });
+    const saved = await client.request('/api/day-logs/bulk', {
+      method: 'POST',
+      body: { dayLogs: [dayLog('2024-01-01'), dayLog('2024-01-02')] },
+    });
+    expect(saved.status).toBe(200);
+
+    const { body } = await client.request('/api/data');
+    expect(body.character.theme).toBe('robot');
+    expect(body.defaultMorningRoutines).toEqual([{ id: TEMPLATE_ID, text: '水を飲む', schedule: { type: 'daily' } }]);
+    expect(body.settings).toMatchObject({ timeZone: 'Asia/Tokyo', backfillGraceDays: 3 });
+    expect(body.dayLogs.map((log: any) => log.date)).toEqual(['2024-01-02', '2024-01-01']);
+    // 以前の3段階の気分は5段階に直して保存される
+    expect(body.dayLogs[0].evening).toMatchObject({ mood: 4, journal: 'よく眠れた' });
+  });
+
+  it('まとめての保存は受け付けない（個別の API で保存する）', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const { status } = await client.request('/api/data', { method: 'POST', body: { dayLogs: [dayLog('2024-01-01')] } });
+    expect(status).toBe(405);
+
+    const { body } = await client.request('/api/data');
+    expect(body.dayLogs).toEqual([]);
+  });
+
+  it('他のユーザーのデータは見えない', async () => {
+    const { client: first } = await signInAsGuest(baseUrl);
+    const { client: second } = await signInAsGuest(baseUrl);
+    await first.request('/api/day-logs/bulk', { method: 'POST', body: { dayLogs: [dayLog('2024-01-01')] } });
+
+    const { body } = await second.request('/api/data');
+    expect(body.dayLogs).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TIME_ZONE, getToday } from '../../shared/date';
+import { signInAsGuest, useApiServer } from './helpers';
+
+const baseUrl = useApiServer();
+
+describe('/api/day-logs', () => {
+  it('指定したセクションだけを更新する', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const { status, body } = await client.request('/api/day-logs/2024-01-01', {
+      method: 'PATCH',
+      body: { evening: { routines: [], completed: false, mood: 4, journal: 'よく眠れた' } },
+    });
+
+    expect(status).toBe(200);
+    expect(body.dayLog.evening).toMatchObject({ mood: 4, journal: 'よく眠れた' });
+  });
+
+  it('修正できる期間を過ぎた日のルーティンは書き換えられない', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const morning = { routines: [{ id: 'r1', text: '水を飲む', completed: true }], completed: true };
+
+    const past = await client.request('/api/day-logs/2024-01-01', { method: 'PATCH', body: { morning } });
+    expect(past.status).toBe(400);
+
+    const today = getToday(DEFAULT_TIME_ZONE);
+    const current = await client.request(`/api/day-logs/${today}`, { method: 'PATCH', body: { morning } });
+    expect(current.status).toBe(200);
+
+    const { body } = await client.request('/api/data');
+    expect(body.dayLogs.map((log: any) => log.date)).toEqual([today]);
+  });
+
+  it('形式が不正な PATCH は保存せずに 400 を返す', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const { status, body } = await client.request('/api/day-logs/2024-01-01', {
+      method: 'PATCH',
+      body: { morning: { routines: 'x' } },
+    });
+    expect(status).toBe(400);
+    expect(body.issues.map((issue: any) => issue.path)).toEqual(['morning.routines', 'morning.completed']);
+
+    const data = await client.request('/api/data');
+    expect(data.status).toBe(200);
+    expect(data.body.dayLogs).toEqual([]);
+  });
+
+  it('実在しない日付は 400 を返す', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const evening = { routines: [], completed: false, mood: 4 };
+
+    expect((await client.request('/api/day-logs/2024-13-45', { method: 'PATCH', body: { evening } })).status).toBe(400);
+    expect((await client.request('/api/day-logs?from=2023-02-29&to=2023-03-31')).status).toBe(400);
+    const bulk = await client.request('/api/day-logs/bulk', {
+      method: 'POST',
+      body: { dayLogs: [{ date: '2024-02-30', morning: { routines: [], completed: false }, evening }] },
+    });
+    expect(bulk.status).toBe(400);
+    expect(bulk.body.issues.map((issue: any) => issue.path)).toEqual(['dayLogs[0].date']);
+    const event = await client.request('/api/routine-events', {
+      method: 'POST',
+      body: { date: '2024-00-10', section: 'morning', routineId: 'r1', completed: true },
+    });
+    expect(event.status).toBe(400);
+  });
+
+  it('まとめて登録する日次ログも同じスキーマで検証する', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const { status, body } = await client.request('/api/day-logs/bulk', {
+      method: 'POST',
+      body: { dayLogs: [{ date: '2024-01-01', morning: { routines: 'x', completed: true }, evening: {} }] },
+    });
+    expect(status).toBe(400);
+    expect(body.issues.map((issue: any) => issue.path)).toContain('dayLogs[0].morning.routines');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { signInAsGuest, useApiServer } from './helpers';
+
+const baseUrl = useApiServer();
+
+describe('/api/export', () => {
+  it('ICS の DTSTART が参照するタイムゾーンを VTIMEZONE で定義する', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    await client.request('/api/routine-settings', {
+      method: 'PUT',
+      body: {
+        defaultMorningRoutines: [],
+        defaultEveningRoutines: [],
+        settings: { morningNotificationTime: '07:00', eveningNotificationTime: '21:30', timeZone: 'Europe/Paris' },
+      },
+    });
+
+    const { status, body } = await client.request('/api/export?format=ics');
+    expect(status).toBe(200);
+
+    const ics = String(body).replace(/\r\n /g, '');
+    const referenced = new Set([...ics.matchAll(/;TZID=([^:;]+)/g)].map((match) => match[1]));
+    const defined = new Set([...ics.matchAll(/^TZID:(.+)$/gm)].map((match) => match[1].trim()));
+    expect([...referenced]).toEqual(['Europe/Paris']);
+    expect([...defined]).toEqual(['Europe/Paris']);
+
+    // 夏時間の開始・終了の両方を含む
+    expect(ics).toMatch(/TZOFFSETFROM:\+0100\r\nTZOFFSETTO:\+0200/);
+    expect(ics).toMatch(/TZOFFSETFROM:\+0200\r\nTZOFFSETTO:\+0100/);
+  });
+
+  it('ICS の UID はユーザーごとに異なり、ユーザーIDそのものは含まない', async () => {
+    const getUids = async () => {
+      const { client, userId } = await signInAsGuest(baseUrl);
+      const first = await client.request('/api/export?format=ics');
+      const second = await client.request('/api/export?format=ics');
+      const uids = [...String(first.body).matchAll(/^UID:(.+)\r$/gm)].map((match) => match[1]);
+      expect([...String(second.body).matchAll(/^UID:(.+)\r$/gm)].map((match) => match[1])).toEqual(uids);
+      expect(uids.some((uid) => uid.includes(userId))).toBe(false);
+      return uids;
+    };
+
+    const first = await getUids();
+    const second = await getUids();
+    expect(first).toHaveLength(2);
+    expect(new Set([...first, ...second]).size).toBe(4);
+  });
+});
@@ -0,0 +1,81 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { afterAll, beforeAll, beforeEach } from 'vitest';
+import { setStorage } from '../../api/lib/storage/index.js';
+import { createMemoryStorage } from '../../api/lib/storage/memory.js';
+import { createSqliteStorage } from '../../api/lib/storage/sqlite.js';
+import { createMemoryRateLimitStore, setRateLimitStore } from '../../api/utils/rateLimit.js';
+import { createApiServer } from '../../scripts/api-server';
+
+export interface ApiResponse<T = any> {
+  status: number;
+  headers: Headers;
+  body: T;
+}
+
+export interface ApiClient {
+  request<T = any>(path: string, init?: { method?: string; body?: unknown; headers?: Record<string, string> }): Promise<ApiResponse<T>>;
+}
+
+// 各テストの前に空のストレージとリクエスト数の記録に差し替える（STORAGE_DRIVER=sqlite なら SQLite のメモリ上のデータベース）
+const createStorage = () =>
+  process.env.STORAGE_DRIVER === 'sqlite' ? createSqliteStorage(':memory:') : createMemoryStorage();
+
+// テストファイルごとにローカルの API サーバーを起動し、ベース URL を返す関数を返す
+export function useApiServer() {
+  let server: Server;
+  let baseUrl = '';
+
+  beforeAll(async () => {
+    server = createApiServer();
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    setStorage(createStorage());
+    setRateLimitStore(createMemoryRateLimitStore());
+  });
+
+  return () => baseUrl;
+}
+
+// Cookie（セッション）を引き継いでリクエストするクライアント
+export function createClient(getBaseUrl: () => string): ApiClient & { cookie: string | null } {
+  const client = {
+    cookie: null as string | null,
+    async request<T = any>(
+      path: string,
+      { method = 'GET', body, headers = {} }: { method?: string; body?: unknown; headers?: Record<string, string> } = {}
+    ): Promise<ApiResponse<T>> {
+      const response = await fetch(`${getBaseUrl()}${path}`, {
+        method,
+        redirect: 'manual',
+        headers: {
+          ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+          ...(client.cookie ? { Cookie: client.cookie } : {}),
+          ...headers,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const setCookie = response.headers.get('set-cookie');
+      if (setCookie) client.cookie = setCookie.split(';')[0];
+
+      const text = await response.text();
+      const isJson = response.headers.get('content-type')?.includes('application/json');
+      return { status: response.status, headers: response.headers, body: isJson ? JSON.parse(text) : text };
+    },
+  };
+  return client;
+}
+
+// ゲストとしてログインしたクライアント
+export async function signInAsGuest(getBaseUrl: () => string) {
+  const client = createClient(getBaseUrl);
+  const { body } = await client.request<{ userId: string }>('/api/auth', { method: 'POST', body: { action: 'guest' } });
+  return { client, userId: body.userId };
+}
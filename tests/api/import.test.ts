@@ -0,0 +1,64 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { CHARACTER_THEMES } from '../../shared/requestSchemas';
+import { signInAsGuest, useApiServer } from './helpers';
+
+const baseUrl = useApiServer();
+
+describe('/api/import', () => {
+  it('キャラクターの見た目の値はデータベースの theme_type と一致する', () => {
+    const sql = readFileSync('database/migrations/001_initial_schema.sql', 'utf8');
+    const values = /CREATE TYPE theme_type AS ENUM \(([^)]*)\)/.exec(sql)?.[1];
+    expect(values?.split(',').map((value) => value.trim().replace(/'/g, ''))).toEqual([...CHARACTER_THEMES]);
+  });
+
+  it('置き換えても、レベル・経験値はバックアップの値にしない', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    await client.request('/api/register', { method: 'POST', body: { displayName: 'ととの' } });
+    const { body: backup } = await client.request('/api/export?format=json');
+    backup.data.character = { ...backup.data.character, level: 999, experience: 12345, theme: 'robot' };
+
+    const { status, body } = await client.request('/api/import', { method: 'POST', body: { backup, mode: 'replace' } });
+    expect(status).toBe(200);
+    expect(body.summary.characterLevel).toEqual({ current: 1, next: 1 });
+
+    const { body: data } = await client.request('/api/data');
+    expect(data.character).toMatchObject({ level: 1, experience: 0, theme: 'robot' });
+  });
+
+  it('置き換えても、経験値を付与済みのルーティンをチェックし直して再び経験値を得られない', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    await client.request('/api/register', { method: 'POST', body: { displayName: 'ととの' } });
+    const { body: data } = await client.request('/api/data');
+    const routineId = data.defaultMorningRoutines[0].id;
+    const check = () =>
+      client.request('/api/routine-events', { method: 'POST', body: { section: 'morning', routineId, completed: true } });
+    expect((await check()).body.awards).toEqual([{ reason: 'routine', amount: 10 }]);
+
+    const { body: backup } = await client.request('/api/export?format=json');
+    // 今日を含まないバックアップと、今日を未チェックに書き換えたバックアップのどちらで置き換えても同じ
+    const today = backup.data.dayLogs[0];
+    const routines = today.morning.routines.map((item: any) => ({ ...item, completed: false }));
+    const unchecked = { ...today, morning: { ...today.morning, routines, completed: false } };
+    for (const dayLogs of [[], [unchecked]]) {
+      const replaced = { ...backup, data: { ...backup.data, dayLogs } };
+      expect((await client.request('/api/import', { method: 'POST', body: { backup: replaced, mode: 'replace' } })).status).toBe(200);
+
+      const { status, body } = await check();
+      expect(status).toBe(200);
+      expect(body.awards).toEqual([]);
+      expect(body.character.experience).toBe(10);
+    }
+  });
+
+  it('theme_type に無い見た目は取り込まず、今の見た目のままにする', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    await client.request('/api/register', { method: 'POST', body: { displayName: 'ととの' } });
+    const { body: backup } = await client.request('/api/export?format=json');
+    backup.data.character = { ...backup.data.character, theme: 'wizard' };
+
+    expect((await client.request('/api/import', { method: 'POST', body: { backup, mode: 'replace' } })).status).toBe(200);
+    const { body: data } = await client.request('/api/data');
+    expect(data.character.theme).toBe('animal');
+  });
+});
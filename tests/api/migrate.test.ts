@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createClient, useApiServer } from './helpers';
+
+// 旧 /api/init（リクエストごとのテーブル作成）は /api/migrate に置き換わった。
+// マイグレーションの適用には PostgreSQL が必要なため、ここでは呼び出しの認証だけを確認する
+const baseUrl = useApiServer();
+const originalSecret = process.env.MIGRATION_SECRET;
+
+afterEach(() => {
+  if (originalSecret === undefined) delete process.env.MIGRATION_SECRET;
+  else process.env.MIGRATION_SECRET = originalSecret;
+});
+
+describe('/api/migrate', () => {
+  it('/api/init は無くなっている', async () => {
+    expect((await createClient(baseUrl).request('/api/init', { method: 'POST' })).status).toBe(404);
+  });
+
+  it('MIGRATION_SECRET と一致しないトークンは 401 を返す', async () => {
+    process.env.MIGRATION_SECRET = 'secret';
+    const client = createClient(baseUrl);
+
+    expect((await client.request('/api/migrate', { method: 'POST' })).status).toBe(401);
+    const wrong = await client.request('/api/migrate', { method: 'POST', headers: { Authorization: 'Bearer nope' } });
+    expect(wrong.status).toBe(401);
+  });
+
+  it('GET と POST 以外は 405 を返す', async () => {
+    expect((await createClient(baseUrl).request('/api/migrate', { method: 'DELETE' })).status).toBe(405);
+  });
+});
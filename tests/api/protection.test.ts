@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getStorage } from '../../api/lib/storage/index.js';
+import { RATE_LIMITS } from '../../api/utils/rateLimit.js';
+import { createClient, signInAsGuest, useApiServer } from './helpers';
+
+const baseUrl = useApiServer();
+
+describe('リクエスト数の制限', () => {
+  it('同じ IP からのゲスト作成は上限を超えると 429 を返す', async () => {
+    const headers = { 'X-Forwarded-For': '203.0.113.10' };
+    for (let i = 0; i < RATE_LIMITS.guest.limit; i++) {
+      const { status } = await createClient(baseUrl).request('/api/auth', { method: 'POST', body: { action: 'guest' }, headers });
+      expect(status).toBe(200);
+    }
+
+    const limited = await createClient(baseUrl).request('/api/auth', { method: 'POST', body: { action: 'guest' }, headers });
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+
+    // 別の IP からは作成できる
+    const other = await createClient(baseUrl).request('/api/auth', {
+      method: 'POST',
+      body: { action: 'guest' },
+      headers: { 'X-Forwarded-For': '203.0.113.11' },
+    });
+    expect(other.status).toBe(200);
+  });
+
+  it('旧バージョンのIDの引き継ぎは同じ IP から上限を超えて試せない', async () => {
+    await getStorage().users.create('legacy-user');
+    const headers = { 'X-Forwarded-For': '203.0.113.20' };
+    const claim = (legacyUserId: string, claimHeaders = headers) =>
+      createClient(baseUrl).request('/api/auth', { method: 'POST', body: { action: 'guest', legacyUserId }, headers: claimHeaders });
+
+    for (let i = 0; i < RATE_LIMITS.legacyClaim.limit; i++) {
+      const { status, body } = await claim(`guess-${i}`);
+      expect(status).toBe(200);
+      expect(body.userId).not.toBe(`guess-${i}`);
+    }
+    expect((await claim('legacy-user')).status).toBe(429);
+
+    // 上限に達した IP からは引き継げず、別の IP からはまだ引き継げる
+    const other = await claim('legacy-user', { 'X-Forwarded-For': '203.0.113.21' });
+    expect(other.body.userId).toBe('legacy-user');
+  });
+
+  it('同じユーザーのデータ取得は上限を超えると 429 を返す', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    for (let i = 0; i < RATE_LIMITS.data.limit; i++) {
+      expect((await client.request('/api/data')).status).toBe(200);
+    }
+    expect((await client.request('/api/data')).status).toBe(429);
+  });
+
+  it('同じユーザーの書き出しは上限を超えると 429 を返す', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    for (let i = 0; i < RATE_LIMITS.export.limit; i++) {
+      expect((await client.request('/api/export?format=json')).status).toBe(200);
+    }
+    expect((await client.request('/api/export?format=json')).status).toBe(429);
+
+    // 別のユーザーは書き出せる
+    const { client: other } = await signInAsGuest(baseUrl);
+    expect((await other.request('/api/export?format=json')).status).toBe(200);
+  });
+});
+
+describe('ルートごとのリクエスト数の制限', () => {
+  const routes = [
+    { policy: RATE_LIMITS.profile, path: '/api/avatar', method: 'PUT', body: {} },
+    { policy: RATE_LIMITS.character, path: '/api/character', method: 'PUT', body: { character: { theme: 'robot' } } },
+    { policy: RATE_LIMITS.routineSettings, path: '/api/routine-settings', method: 'PUT', body: {} },
+    { policy: RATE_LIMITS.dayLogHistory, path: '/api/day-logs?from=2024-01-01&to=2024-01-31', method: 'GET' },
+    { policy: RATE_LIMITS.pushSubscriptions, path: '/api/push-subscriptions', method: 'POST', body: {} },
+  ];
+
+  for (const { policy, path, method, body } of routes) {
+    it(`${method} ${path.split('?')[0]} は同じユーザーが上限を超えると 429 を返す`, async () => {
+      const { client } = await signInAsGuest(baseUrl);
+      for (let i = 0; i < policy.limit; i++) {
+        expect((await client.request(path, { method, body })).status).not.toBe(429);
+      }
+      expect((await client.request(path, { method, body })).status).toBe(429);
+    });
+  }
+
+  it('ログインリンクの確認は同じ IP から上限を超えて試せない', async () => {
+    const headers = { 'X-Forwarded-For': '203.0.113.30' };
+    const verify = () =>
+      createClient(baseUrl).request('/api/auth', { method: 'POST', body: { action: 'verify-link', token: 'invalid' }, headers });
+    for (let i = 0; i < RATE_LIMITS.verifyLink.limit; i++) {
+      expect((await verify()).status).toBe(400);
+    }
+    expect((await verify()).status).toBe(429);
+  });
+});
+
+describe('CORS', () => {
+  afterEach(() => {
+    delete process.env.ALLOWED_ORIGINS;
+  });
+
+  it('許可されたオリジンにだけ CORS のヘッダーを返す', async () => {
+    process.env.ALLOWED_ORIGINS = 'https://app.example.com';
+    const client = createClient(baseUrl);
+
+    const allowed = await client.request('/api/chat', { method: 'OPTIONS', headers: { Origin: 'https://app.example.com' } });
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+
+    const denied = await client.request('/api/chat', { method: 'OPTIONS', headers: { Origin: 'https://evil.example.com' } });
+    expect(denied.status).toBe(403);
+    expect(denied.headers.get('access-control-allow-origin')).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createClient, signInAsGuest, useApiServer } from './helpers';
+
+const baseUrl = useApiServer();
+
+describe('/api/register', () => {
+  it('プロフィールを登録し、キャラクターを作成する', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const { status } = await client.request('/api/register', {
+      method: 'POST',
+      body: { displayName: '  ととの  ', email: 'totono@example.com', timeZone: 'Asia/Tokyo' },
+    });
+    expect(status).toBe(200);
+
+    const { body } = await client.request('/api/data');
+    expect(body.user).toMatchObject({ displayName: 'ととの', email: 'totono@example.com', isRegistered: true });
+    expect(body.character).toMatchObject({ level: 1, theme: 'animal' });
+  });
+
+  it('登録し直してもキャラクターの成長は引き継ぐ', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    await client.request('/api/register', { method: 'POST', body: { displayName: 'ととの' } });
+    await client.request('/api/character', { method: 'PUT', body: { character: { theme: 'robot' } } });
+    await client.request('/api/register', { method: 'POST', body: { displayName: 'ととの2' } });
+
+    const { body } = await client.request('/api/data');
+    expect(body.user.displayName).toBe('ととの2');
+    expect(body.character.theme).toBe('robot');
+  });
+
+  it('名前が空なら 400 を返す', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const { status, body } = await client.request('/api/register', {
+      method: 'POST',
+      body: { displayName: '   ', email: 'not-an-email' },
+    });
+
+    expect(status).toBe(400);
+    expect(body.issues.map((issue: any) => issue.path)).toEqual(['displayName', 'email']);
+  });
+
+  it('ログインしていなければ 401、POST 以外は 405 を返す', async () => {
+    const guest = createClient(baseUrl);
+    expect((await guest.request('/api/register', { method: 'POST', body: { displayName: 'x' } })).status).toBe(401);
+    expect((await guest.request('/api/register')).status).toBe(405);
+  });
+
+  it('キャラクターの見た目は theme_type の値だけを受け付ける', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    await client.request('/api/register', { method: 'POST', body: { displayName: 'ととの' } });
+
+    const invalid = await client.request('/api/character', { method: 'PUT', body: { character: { theme: { name: 'robot' } } } });
+    expect(invalid.status).toBe(400);
+    const unknown = await client.request('/api/character', { method: 'PUT', body: { character: { theme: 'wizard' } } });
+    expect(unknown.status).toBe(400);
+
+    const { body } = await client.request('/api/data');
+    expect(body.character.theme).toBe('animal');
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { signInAsGuest, useApiServer } from './helpers';
+
+const baseUrl = useApiServer();
+
+describe('/api/routine-events', () => {
+  it('予定しているルーティンのチェックで経験値を付与する（項目名はサーバーの定義を使う）', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const { body: data } = await client.request('/api/data');
+    const template = data.defaultMorningRoutines[0];
+
+    const { status, body } = await client.request('/api/routine-events', {
+      method: 'POST',
+      body: { section: 'morning', routineId: template.id, text: '書き換えた名前', completed: true },
+    });
+
+    expect(status).toBe(200);
+    expect(body.awards).toEqual([{ reason: 'routine', amount: 10 }]);
+    expect(body.dayLog.morning.routines.find((item: any) => item.id === template.id).text).toBe(template.text);
+  });
+
+  it('記録にも予定にも無いルーティンは 400 を返し、経験値を付与しない', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const { status } = await client.request('/api/routine-events', {
+      method: 'POST',
+      body: { section: 'morning', routineId: 'made-up', text: '架空', completed: true },
+    });
+    expect(status).toBe(400);
+
+    const { body } = await client.request('/api/data');
+    expect(body.character).toMatchObject({ level: 1, experience: 0 });
+  });
+
+  it('occurredAt を過去の日にしても、修正できる期間はサーバーの今日を基準にする', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const { body: data } = await client.request('/api/data');
+
+    const { status } = await client.request('/api/routine-events', {
+      method: 'POST',
+      body: {
+        date: '2020-01-01',
+        section: 'morning',
+        routineId: data.defaultMorningRoutines[0].id,
+        completed: true,
+        occurredAt: '2020-01-01T09:00:00+09:00',
+      },
+    });
+    expect(status).toBe(400);
+  });
+});
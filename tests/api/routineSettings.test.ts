@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { signInAsGuest, useApiServer } from './helpers';
+
+const baseUrl = useApiServer();
+
+describe('/api/routine-settings', () => {
+  it('通知時刻の無い設定は保存せずに 400 を返す', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const { status, body } = await client.request('/api/routine-settings', {
+      method: 'PUT',
+      body: { defaultMorningRoutines: [], defaultEveningRoutines: [], settings: {} },
+    });
+
+    expect(status).toBe(400);
+    expect(body.issues.map((issue: any) => issue.path)).toEqual([
+      'settings.morningNotificationTime',
+      'settings.eveningNotificationTime',
+    ]);
+
+    const exported = await client.request('/api/export?format=ics');
+    expect(exported.status).toBe(200);
+  });
+
+  it('省略したタイムゾーンは今の設定のままにする', async () => {
+    const { client } = await signInAsGuest(baseUrl);
+    const settings = { morningNotificationTime: '07:00', eveningNotificationTime: '21:30' };
+    await client.request('/api/routine-settings', {
+      method: 'PUT',
+      body: { defaultMorningRoutines: [], defaultEveningRoutines: [], settings: { ...settings, timeZone: 'Europe/Paris' } },
+    });
+    const { status } = await client.request('/api/routine-settings', {
+      method: 'PUT',
+      body: { defaultMorningRoutines: [], defaultEveningRoutines: [], settings },
+    });
+    expect(status).toBe(200);
+
+    const { body } = await client.request('/api/data');
+    expect(body.settings.timeZone).toBe('Europe/Paris');
+  });
+});
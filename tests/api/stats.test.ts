@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { getStorage } from '../../api/lib/storage/index.js';
+import { addDays, DEFAULT_TIME_ZONE, getToday } from '../../shared/date';
+import type { DayLog } from '../../src/types';
+import { ApiClient, signInAsGuest, useApiServer } from './helpers';
+
+const baseUrl = useApiServer();
+
+const createLog = (date: string, morning: boolean[], evening: boolean[]): DayLog => ({
+  date,
+  morning: {
+    routines: morning.map((completed, index) => ({ id: `m${index + 1}`, text: `朝${index + 1}`, completed })),
+    completed: morning.length > 0 && morning.every(Boolean),
+  },
+  evening: {
+    routines: evening.map((completed, index) => ({ id: `e${index + 1}`, text: `夜${index + 1}`, completed })),
+    completed: evening.length > 0 && evening.every(Boolean),
+  },
+});
+
+const setTimeZone = (client: ApiClient, timeZone: string) =>
+  client.request('/api/routine-settings', {
+    method: 'PUT',
+    body: {
+      defaultMorningRoutines: [],
+      defaultEveningRoutines: [],
+      settings: { morningNotificationTime: '07:00', eveningNotificationTime: '21:30', timeZone },
+    },
+  });
+
+describe('/api/stats', () => {
+  it('達成率とルーティンごとの集計を返す', async () => {
+    const { client, userId } = await signInAsGuest(baseUrl);
+    const today = getToday(DEFAULT_TIME_ZONE);
+    await getStorage().dayLogs.saveMany(userId, [
+      createLog(addDays(today, -2), [true], [false]),
+      createLog(addDays(today, -1), [true], [true]),
+      createLog(today, [false], []),
+      // 期間外の記録は数えない
+      createLog(addDays(today, -7), [true], [true]),
+    ]);
+
+    const { status, body } = await client.request('/api/stats?period=7');
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ period: 7, from: addDays(today, -6), to: today, loggedDays: 3 });
+    expect(body.sections).toEqual({
+      morning: { scheduled: 3, completed: 2, rate: 2 / 3 },
+      evening: { scheduled: 2, completed: 1, rate: 0.5 },
+    });
+    expect(body.routines).toEqual([
+      { templateId: 'm1', section: 'morning', text: '朝1', scheduled: 3, completed: 2, rate: 2 / 3 },
+      { templateId: 'e1', section: 'evening', text: '夜1', scheduled: 2, completed: 1, rate: 0.5 },
+    ]);
+
+    const weekdayTotals = body.weekdays.reduce(
+      (totals: { scheduled: number; completed: number }, weekday: any) => ({
+        scheduled: totals.scheduled + weekday.scheduled,
+        completed: totals.completed + weekday.completed,
+      }),
+      { scheduled: 0, completed: 0 }
+    );
+    expect(weekdayTotals).toEqual({ scheduled: 5, completed: 3 });
+  });
+
+  it('期間の区切りはユーザーのタイムゾーンの日付で決まる', async () => {
+    const { client, userId } = await signInAsGuest(baseUrl);
+    // UTC-11 と UTC+14 では日付が1日以上ずれる
+    const western = getToday('Pacific/Pago_Pago');
+    const eastern = getToday('Pacific/Kiritimati');
+    await getStorage().dayLogs.saveMany(userId, [
+      createLog(addDays(western, -6), [true], []),
+      createLog(western, [true], []),
+      createLog(eastern, [true], []),
+    ]);
+
+    expect((await setTimeZone(client, 'Pacific/Pago_Pago')).status).toBe(200);
+    const west = await client.request('/api/stats?period=7');
+    expect(west.body).toMatchObject({ from: addDays(western, -6), to: western, loggedDays: 2 });
+
+    expect((await setTimeZone(client, 'Pacific/Kiritimati')).status).toBe(200);
+    const east = await client.request('/api/stats?period=7');
+    expect(east.body).toMatchObject({ from: addDays(eastern, -6), to: eastern, loggedDays: 2 });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { getStorage } from '../../api/lib/storage/index.js';
+import { addDays, DEFAULT_TIME_ZONE, getToday } from '../../shared/date';
+import type { DayLog } from '../../src/types';
+import { signInAsGuest, useApiServer } from './helpers';
+
+const baseUrl = useApiServer();
+
+const createLog = (date: string, completed: boolean): DayLog => ({
+  date,
+  morning: { routines: [{ id: 'm1', text: '水を飲む', completed }], completed },
+  evening: { routines: [{ id: 'e1', text: '歯磨き', completed }], completed },
+});
+
+// today の offset 日前から count 日分の達成した記録
+const completedDays = (today: string, offset: number, count: number) =>
+  Array.from({ length: count }, (_, index) => createLog(addDays(today, -offset + index), true));
+
+describe('/api/streaks', () => {
+  it('途切れた日を手持ちのフリーズで守る', async () => {
+    const { client, userId } = await signInAsGuest(baseUrl);
+    const today = getToday(DEFAULT_TIME_ZONE);
+    const storage = getStorage();
+    // 5日前〜2日前は達成、昨日は記録なし
+    await storage.dayLogs.saveMany(userId, completedDays(today, 5, 4));
+    await storage.streakFreezes.insert(userId, addDays(today, -10));
+
+    const { status, body } = await client.request('/api/streaks');
+    expect(status).toBe(200);
+    expect(body.overall).toEqual({ current: 4, best: 4 });
+    expect(body.frozenDates).toEqual([addDays(today, -1)]);
+    expect(body.freezesAvailable).toBe(0);
+
+    const freezes = await storage.streakFreezes.findForUpdate(userId);
+    expect(freezes.map((freeze) => freeze.usedOn)).toEqual([addDays(today, -1)]);
+  });
+
+  it('フリーズが無ければ未達成の日で連続記録が途切れる', async () => {
+    const { client, userId } = await signInAsGuest(baseUrl);
+    const today = getToday(DEFAULT_TIME_ZONE);
+    await getStorage().dayLogs.saveMany(userId, [...completedDays(today, 5, 4), createLog(addDays(today, -1), false)]);
+
+    const { body } = await client.request('/api/streaks');
+    expect(body.overall).toEqual({ current: 0, best: 4 });
+    expect(body.frozenDates).toEqual([]);
+    expect(body.freezesAvailable).toBe(0);
+  });
+
+  it('連続記録が7日に達するとフリーズを1つだけ獲得する', async () => {
+    const { client, userId } = await signInAsGuest(baseUrl);
+    const today = getToday(DEFAULT_TIME_ZONE);
+    await getStorage().dayLogs.saveMany(userId, completedDays(today, 7, 7));
+
+    const first = await client.request('/api/streaks');
+    expect(first.body.overall).toEqual({ current: 7, best: 7 });
+    expect(first.body.freezesAvailable).toBe(1);
+
+    // 同じ節目では二度目を獲得しない
+    const second = await client.request('/api/streaks');
+    expect(second.body.freezesAvailable).toBe(1);
+    const freezes = await getStorage().streakFreezes.findForUpdate(userId);
+    expect(freezes).toEqual([expect.objectContaining({ earnedOn: addDays(today, -1), usedOn: null })]);
+  });
+});
@@ -10,5 +10,11 @@ const base = process.env.VITE_BASE_PATH || '/'
 export default defineConfig({
   plugins: [react()],
   base: base,
+  server: {
+    // npm run dev:api で起動したローカルの API サーバーへ転送する
+    proxy: {
+      '/api': `http://localhost:${process.env.API_PORT || 3000}`,
+    },
+  },
 })
 